@@ -0,0 +1,108 @@
+import type { SubgraphMode, EdgeRouting, LayoutEngine, LayoutSpacing } from '../types/index.js';
+
+/**
+ * Identity of one element: its ID, seed and nonce are derived from a key built
+ * from Mermaid identifiers (e.g. `node:A`, `edge:A->B`), so converting the same
+ * source twice produces identical output.
+ */
+export interface ElementSlot {
+  id: string;
+  seed: number;
+  versionNonce: number;
+  updated: number;
+}
+
+export interface ConversionOptions {
+  /** `updated` timestamp written to every element (defaults to a fixed value) */
+  timestamp?: number;
+  /** Emit subgraphs as frames or groups (defaults per diagram type) */
+  subgraphs?: SubgraphMode;
+  /** Orthogonal elbow arrows (default), rounded routes, or straight lines */
+  edgeRouting?: EdgeRouting;
+  /** Placement engine, overriding the `layout:` directive */
+  layout?: LayoutEngine;
+  /** Spacing overrides, applied over the `spacing:` directive */
+  spacing?: LayoutSpacing;
+  /** Repeat sequence participant headers below the lifelines (default off) */
+  mirrorParticipants?: boolean;
+}
+
+/**
+ * State for a single conversion. Each call to `convertToExcalidraw` gets its own,
+ * so concurrent conversions never share counters.
+ */
+export interface ConversionContext {
+  /** Identity for an element */
+  slot(key: string): ElementSlot;
+  /** Stable ID for non-element objects such as groups */
+  id(key: string): string;
+}
+
+// Fixed `updated` value so regenerated files don't differ by timestamp
+const DEFAULT_TIMESTAMP = 1;
+
+const ID_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+const ID_LENGTH = 8;
+
+export function createConversionContext(options: ConversionOptions = {}): ConversionContext {
+  const updated = options.timestamp ?? DEFAULT_TIMESTAMP;
+  const seenKeys = new Map<string, number>();
+  const usedIds = new Set<string>();
+
+  // Repeated keys (e.g. two edges between the same nodes) get an ordinal suffix
+  const uniqueKey = (key: string): string => {
+    const count = seenKeys.get(key) ?? 0;
+    seenKeys.set(key, count + 1);
+    return count === 0 ? key : `${key}#${count + 1}`;
+  };
+
+  const idFor = (key: string): string => {
+    let id = hashToId(key);
+    for (let attempt = 2; usedIds.has(id); attempt++) {
+      id = hashToId(`${key}~${attempt}`);
+    }
+    usedIds.add(id);
+    return id;
+  };
+
+  return {
+    slot(key) {
+      const unique = uniqueKey(key);
+      return {
+        id: idFor(unique),
+        seed: hash(`${unique}:seed`) % 2 ** 31,
+        versionNonce: hash(`${unique}:nonce`) % 2 ** 31,
+        updated,
+      };
+    },
+    id(key) {
+      return idFor(uniqueKey(key));
+    },
+  };
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return h;
+}
+
+function hashToId(key: string): string {
+  let id = '';
+  let h = hash(key);
+  for (let i = 0; i < ID_LENGTH; i++) {
+    // Re-mix once the hash runs out of digits
+    if (h < ID_CHARS.length) {
+      h = hash(`${key}:${i}`);
+    }
+    id += ID_CHARS[h % ID_CHARS.length];
+    h = Math.floor(h / ID_CHARS.length);
+  }
+  return id;
+}
@@ -1,26 +1,72 @@
-import type { ExcalidrawElement, ParsedNode, ParsedSubgraph, ExcalidrawBinding } from '../types/index.js';
-import type { LayoutNode, LayoutEdge, LayoutSubgraph } from './layout.js';
+import type {
+  ExcalidrawElement,
+  ExcalidrawArrowhead,
+  ParsedNode,
+  ParsedSubgraph,
+  ExcalidrawBinding,
+  EdgeArrowhead,
+  EdgeWeight,
+} from '../types/index.js';
+import type {
+  LayoutNode,
+  LayoutEdge,
+  LayoutSubgraph,
+  LayoutNote,
+  LayoutFragment,
+  LayoutActivation,
+  LayoutBox,
+} from './layout.js';
 import { getStyleColors } from './styles.js';
+import { shapeGeometry, LABELLESS_SHAPES, type Point, type ShapePart } from './shapes.js';
+import { isWikiLink } from '../parser/label.js';
+import type { ConversionContext, ElementSlot } from './context.js';
+import {
+  measureText,
+  wrapText,
+  BOLD_FONT_FAMILY,
+  BOUND_TEXT_PADDING,
+  DEFAULT_FONT_FAMILY,
+  DEFAULT_FONT_SIZE,
+  DEFAULT_LINE_HEIGHT,
+} from './text.js';
 
 export interface ArrowBindings {
   startBinding?: ExcalidrawBinding;
   endBinding?: ExcalidrawBinding;
 }
 
-let seedCounter = 1000;
+// Canvas color behind edge labels
+const EDGE_LABEL_BACKGROUND = '#ffffff';
 
-function generateSeed(): number {
-  return seedCounter++;
-}
+// Sticky-note colors for sequence diagram notes
+const NOTE_BACKGROUND = '#fff3bf';
+const NOTE_STROKE = '#f08c00';
 
-function generateId(): string {
-  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-  let result = '';
-  for (let i = 0; i < 8; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  return result;
-}
+// Activation bars on sequence lifelines
+const ACTIVATION_BACKGROUND = '#e9ecef';
+const ACTIVATION_STROKE = '#495057';
+
+// Participant boxes are tinted unless `rgba(...)` sets their opacity
+const PARTICIPANT_BOX_STROKE = '#adb5bd';
+const PARTICIPANT_BOX_OPACITY = 35;
+const PARTICIPANT_BOX_FONT_SIZE = 14;
+const PARTICIPANT_BOX_LABEL_GAP = 10;
+
+// Cross at the end of a destroyed participant's lifeline
+const DESTROY_MARK_SIZE = 16;
+const DESTROY_MARK_STROKE = '#c92a2a';
+
+// `autonumber` badges at the start of sequence messages
+const SEQUENCE_NUMBER_BACKGROUND = '#1e1e1e';
+const SEQUENCE_NUMBER_COLOR = '#ffffff';
+const SEQUENCE_NUMBER_FONT_SIZE = 11;
+const SEQUENCE_NUMBER_SIZE = 20;
+
+// Sequence fragment outlines and their corner tags
+const FRAGMENT_STROKE = '#495057';
+const FRAGMENT_TAG_BACKGROUND = '#f1f3f5';
+const FRAGMENT_FONT_SIZE = 14;
+const FRAGMENT_TAG_PADDING = 6;
 
 function createBaseElement(
   type: ExcalidrawElement['type'],
@@ -28,12 +74,12 @@ function createBaseElement(
   y: number,
   width: number,
   height: number,
-  index: string
-): Partial<ExcalidrawElement> {
-  const seed = generateSeed();
+  slot: ElementSlot
+): ExcalidrawElement {
   return {
-    id: generateId(),
+    id: slot.id,
     type,
+    index: '', // Assigned when the layers are stacked
     x,
     y,
     width,
@@ -48,32 +94,43 @@ function createBaseElement(
     opacity: 100,
     groupIds: [],
     frameId: null,
-    index,
     roundness: type === 'arrow' ? { type: 2 } : null,
-    seed,
+    seed: slot.seed,
     version: 1,
-    versionNonce: seed,
+    versionNonce: slot.versionNonce,
     isDeleted: false,
     boundElements: [],
-    updated: Date.now(),
+    updated: slot.updated,
     link: null,
     locked: false,
   };
 }
 
+/**
+ * Shape colors from the node's style type, with Mermaid `classDef`/`style` overrides applied
+ */
+function nodeStyle(node: ParsedNode): Pick<ExcalidrawElement, 'strokeColor' | 'backgroundColor' | 'strokeWidth' | 'strokeStyle'> {
+  const colors = getStyleColors(node.styleType);
+  return {
+    strokeColor: node.style?.strokeColor ?? colors.strokeColor,
+    backgroundColor: node.style?.backgroundColor ?? colors.backgroundColor,
+    strokeWidth: node.style?.strokeWidth ?? 1,
+    strokeStyle: node.style?.strokeStyle ?? 'solid',
+  };
+}
+
 export function createRectangle(
   layout: LayoutNode,
   node: ParsedNode,
-  index: string
+  slot: ElementSlot
 ): ExcalidrawElement {
-  const colors = getStyleColors(node.styleType);
-  const base = createBaseElement('rectangle', layout.x, layout.y, layout.width, layout.height, index);
+  const base = createBaseElement('rectangle', layout.x, layout.y, layout.width, layout.height, slot);
 
   return {
     ...base,
     type: 'rectangle',
-    strokeColor: colors.strokeColor,
-    backgroundColor: colors.backgroundColor,
+    ...nodeStyle(node),
+    link: node.link ?? null,
     hasTextLink: false,
   } as ExcalidrawElement;
 }
@@ -81,16 +138,31 @@ export function createRectangle(
 export function createEllipse(
   layout: LayoutNode,
   node: ParsedNode,
-  index: string
+  slot: ElementSlot
 ): ExcalidrawElement {
-  const colors = getStyleColors(node.styleType);
-  const base = createBaseElement('ellipse', layout.x, layout.y, layout.width, layout.height, index);
+  const base = createBaseElement('ellipse', layout.x, layout.y, layout.width, layout.height, slot);
 
   return {
     ...base,
     type: 'ellipse',
-    strokeColor: colors.strokeColor,
-    backgroundColor: colors.backgroundColor,
+    ...nodeStyle(node),
+    link: node.link ?? null,
+    hasTextLink: false,
+  } as ExcalidrawElement;
+}
+
+export function createDiamond(
+  layout: LayoutNode,
+  node: ParsedNode,
+  slot: ElementSlot
+): ExcalidrawElement {
+  const base = createBaseElement('diamond', layout.x, layout.y, layout.width, layout.height, slot);
+
+  return {
+    ...base,
+    type: 'diamond',
+    ...nodeStyle(node),
+    link: node.link ?? null,
     hasTextLink: false,
   } as ExcalidrawElement;
 }
@@ -99,62 +171,86 @@ export function createText(
   x: number,
   y: number,
   text: string,
-  index: string,
+  slot: ElementSlot,
   options: {
     fontSize?: number;
     textAlign?: string;
     verticalAlign?: string;
     strokeColor?: string;
+    fontFamily?: number;
+    rawText?: string; // Markdown source (e.g. with `[[wiki-links]]`) when it differs from `text`
+    link?: string;
+    containerId?: string;
+    originalText?: string; // Unwrapped text when `text` is wrapped to fit a container
   } = {}
 ): ExcalidrawElement {
-  const fontSize = options.fontSize ?? 16;
-  const lineHeight = 1.25;
-  const lines = text.split('\n');
-  const width = Math.max(...lines.map(l => l.length)) * fontSize * 0.55;
-  const height = lines.length * fontSize * lineHeight;
-
-  const base = createBaseElement('text', x, y, width, height, index);
-  const id = generateId();
+  const fontSize = options.fontSize ?? DEFAULT_FONT_SIZE;
+  const fontFamily = options.fontFamily ?? DEFAULT_FONT_FAMILY;
+  const lineHeight = DEFAULT_LINE_HEIGHT;
+  const { width, height } = measureText(text, { fontSize, fontFamily, lineHeight });
 
+  const base = createBaseElement('text', x, y, width, height, slot);
   return {
     ...base,
-    id,
     type: 'text',
     strokeColor: options.strokeColor ?? '#1e1e1e',
     text,
     fontSize,
-    fontFamily: 1,
+    fontFamily,
     textAlign: options.textAlign ?? 'center',
     verticalAlign: options.verticalAlign ?? 'middle',
-    containerId: null,
-    originalText: text,
+    containerId: options.containerId ?? null,
+    originalText: options.originalText ?? text,
     autoResize: true,
     baseline: Math.round(fontSize * 0.8),
     lineHeight,
-    rawText: text,
-    hasTextLink: false,
+    rawText: options.rawText ?? text,
+    link: options.link ?? null,
+    hasTextLink: options.rawText !== undefined && options.rawText !== text,
   } as ExcalidrawElement;
 }
 
 export interface ArrowOptions {
   bindings?: ArrowBindings;
   strokeColor?: string;
-  strokeStyle?: 'solid' | 'dashed';
+  strokeStyle?: 'solid' | 'dashed' | 'dotted';
+}
+
+// Mermaid link endings mapped to the closest Excalidraw arrowheads
+const EXCALIDRAW_ARROWHEADS: Record<EdgeArrowhead, ExcalidrawArrowhead> = {
+  arrow: 'arrow',
+  triangle: 'triangle',
+  circle: 'dot',
+  cross: 'bar',
+};
+
+// Stroke widths for normal (`-->`) and thick (`==>`) links
+const EDGE_STROKE_WIDTHS: Record<EdgeWeight, number> = {
+  normal: 1,
+  thick: 3,
+  invisible: 1,
+};
+
+function arrowheadsFor(edge: LayoutEdge): { start: ExcalidrawArrowhead | null; end: ExcalidrawArrowhead | null } {
+  const arrowType = edge.arrowType ?? 'arrow';
+  return {
+    start: arrowType === 'both' ? EXCALIDRAW_ARROWHEADS[edge.startArrowhead ?? 'arrow'] : null,
+    end: arrowType === 'none' ? null : EXCALIDRAW_ARROWHEADS[edge.endArrowhead ?? 'arrow'],
+  };
 }
 
 export function createArrow(
   edge: LayoutEdge,
-  index: string,
+  slot: ElementSlot,
   options?: ArrowOptions
 ): ExcalidrawElement {
   const points = edge.points;
   if (points.length < 2) {
     // Fallback for empty edges
-    return createBaseElement('arrow', 0, 0, 0, 0, index) as ExcalidrawElement;
+    return createBaseElement('arrow', 0, 0, 0, 0, slot);
   }
 
   const startPoint = points[0];
-  const endPoint = points[points.length - 1];
 
   // Arrow position is at the start point
   // Points array contains relative offsets from the arrow's x,y
@@ -163,23 +259,36 @@ export function createArrow(
     p.y - startPoint.y,
   ]);
 
-  const width = Math.abs(endPoint.x - startPoint.x);
-  const height = Math.abs(endPoint.y - startPoint.y);
+  // Bounding box of the whole path, which may bend past its end points
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const width = Math.max(...xs) - Math.min(...xs);
+  const height = Math.max(...ys) - Math.min(...ys);
+
+  const base = createBaseElement('arrow', startPoint.x, startPoint.y, width, height, slot);
+  const arrowheads = arrowheadsFor(edge);
+  const weight = edge.weight ?? 'normal';
 
-  const base = createBaseElement('arrow', startPoint.x, startPoint.y, width, height, index);
+  // Orthogonal routes become Excalidraw elbow arrows, which are drawn with sharp corners
+  const elbow = edge.routing === 'orthogonal'
+    ? { elbowed: true, roundness: null, fixedSegments: null, startIsSpecial: null, endIsSpecial: null }
+    : {};
 
   return {
     ...base,
+    ...elbow,
     type: 'arrow',
-    strokeColor: '#1e1e1e',
-    strokeStyle: options?.strokeStyle ?? 'solid',
+    strokeColor: options?.strokeColor ?? edge.strokeColor ?? '#1e1e1e',
+    strokeStyle: options?.strokeStyle ?? edge.lineStyle ?? 'solid',
+    strokeWidth: edge.strokeWidth ?? EDGE_STROKE_WIDTHS[weight],
+    opacity: weight === 'invisible' ? 0 : 100,
     points: relativePoints,
     lastCommittedPoint: null,
     startBinding: options?.bindings?.startBinding ?? null,
     endBinding: options?.bindings?.endBinding ?? null,
-    startArrowhead: null,
-    endArrowhead: 'arrow',
-  } as ExcalidrawElement;
+    startArrowhead: arrowheads.start,
+    endArrowhead: arrowheads.end,
+  };
 }
 
 export function createLine(
@@ -187,7 +296,7 @@ export function createLine(
   y1: number,
   x2: number,
   y2: number,
-  index: string,
+  slot: ElementSlot,
   options: {
     strokeColor?: string;
     strokeStyle?: 'solid' | 'dashed' | 'dotted';
@@ -197,7 +306,7 @@ export function createLine(
   const width = Math.abs(x2 - x1);
   const height = Math.abs(y2 - y1);
 
-  const base = createBaseElement('line', x1, y1, width, height, index);
+  const base = createBaseElement('line', x1, y1, width, height, slot);
 
   return {
     ...base,
@@ -217,10 +326,10 @@ export function createLine(
 export function createSubgraphRect(
   layout: LayoutSubgraph,
   subgraph: ParsedSubgraph,
-  index: string
+  slot: ElementSlot
 ): ExcalidrawElement {
   const colors = getStyleColors(subgraph.styleType);
-  const base = createBaseElement('rectangle', layout.x, layout.y, layout.width, layout.height, index);
+  const base = createBaseElement('rectangle', layout.x, layout.y, layout.width, layout.height, slot);
 
   return {
     ...base,
@@ -233,24 +342,211 @@ export function createSubgraphRect(
   } as ExcalidrawElement;
 }
 
-export function nodeShapeToElement(
+export function createFrame(
+  layout: LayoutSubgraph,
+  slot: ElementSlot
+): ExcalidrawElement {
+  const base = createBaseElement('frame', layout.x, layout.y, layout.width, layout.height, slot);
+
+  return {
+    ...base,
+    type: 'frame',
+    strokeColor: '#bbb',
+    backgroundColor: 'transparent',
+    fillStyle: 'solid',
+    strokeWidth: 2,
+    roughness: 0,
+    name: layout.label,
+  } as ExcalidrawElement;
+}
+
+export function createPolyline(
+  points: Point[],
+  slot: ElementSlot,
+  options: {
+    strokeColor?: string;
+    backgroundColor?: string;
+    fillStyle?: string;
+    strokeStyle?: 'solid' | 'dashed' | 'dotted';
+    strokeWidth?: number;
+    closed?: boolean;
+    smooth?: boolean;
+  } = {}
+): ExcalidrawElement {
+  const [x0, y0] = points[0];
+  const relativePoints: [number, number][] = points.map(([x, y]) => [x - x0, y - y0]);
+  if (options.closed) {
+    relativePoints.push([0, 0]);
+  }
+
+  const xs = relativePoints.map(p => p[0]);
+  const ys = relativePoints.map(p => p[1]);
+  const base = createBaseElement(
+    'line',
+    x0,
+    y0,
+    Math.max(...xs) - Math.min(...xs),
+    Math.max(...ys) - Math.min(...ys),
+    slot
+  );
+
+  return {
+    ...base,
+    type: 'line',
+    strokeColor: options.strokeColor ?? '#1e1e1e',
+    backgroundColor: options.backgroundColor ?? 'transparent',
+    fillStyle: options.fillStyle ?? base.fillStyle,
+    strokeStyle: options.strokeStyle ?? 'solid',
+    strokeWidth: options.strokeWidth ?? 1,
+    roundness: options.smooth ? { type: 2 } : null,
+    points: relativePoints,
+    polygon: options.closed ?? false,
+    lastCommittedPoint: null,
+    startBinding: null,
+    endBinding: null,
+    startArrowhead: null,
+    endArrowhead: null,
+  } as ExcalidrawElement;
+}
+
+/**
+ * Draw a node's shape. Composite shapes (documents, cylinders, subroutines, ...)
+ * become several grouped elements; `shape` is the one arrows bind to.
+ * Line polygons are not bindable in Excalidraw, so polygon outlines get an
+ * invisible rectangle over the node as their binding target.
+ */
+export function nodeShapeToElements(
+  layout: LayoutNode,
+  node: ParsedNode,
+  ctx: ConversionContext
+): { shape: ExcalidrawElement; elements: ExcalidrawElement[] } {
+  const parts = shapeGeometry(node.shape, layout.width, layout.height);
+  const style = nodeStyle(node);
+  const elements: ExcalidrawElement[] = [];
+  let shape: ExcalidrawElement | undefined;
+
+  const outline = parts.find(part => part.type !== 'path' && part.outline);
+  if (!outline || outline.type === 'polygon') {
+    shape = {
+      ...createRectangle(layout, node, ctx.slot(`node:${node.id}`)),
+      strokeColor: 'transparent',
+      backgroundColor: 'transparent',
+    };
+    elements.push(shape);
+  }
+
+  for (const part of parts) {
+    const element = shapePartToElement(part, layout, node, style, ctx.slot(`node:${node.id}:part`));
+    if (part === outline && !shape) {
+      shape = element;
+    } else {
+      element.link = null;
+    }
+    elements.push(element);
+  }
+
+  if (elements.length > 1) {
+    const groupId = ctx.id(`node:${node.id}:group`);
+    for (const element of elements) {
+      element.groupIds = [groupId];
+    }
+  }
+
+  return { shape: shape!, elements };
+}
+
+function shapePartToElement(
+  part: ShapePart,
   layout: LayoutNode,
   node: ParsedNode,
-  index: string
+  style: ReturnType<typeof nodeStyle>,
+  slot: ElementSlot
 ): ExcalidrawElement {
-  switch (node.shape) {
-    case 'ellipse':
-    case 'cylinder': // Use ellipse as approximation for cylinder
-      return createEllipse(layout, node, index);
-    case 'diamond':
-    case 'hexagon':
-    case 'stadium':
+  const fill = part.type === 'path' ? 'none' : part.fill ?? 'background';
+  const fillColors = {
+    backgroundColor: fill === 'background' ? style.backgroundColor
+      : fill === 'stroke' ? style.strokeColor
+      : 'transparent',
+    fillStyle: fill === 'stroke' ? 'solid' : 'hachure',
+  };
+
+  switch (part.type) {
     case 'rectangle':
-    default:
-      return createRectangle(layout, node, index);
+    case 'ellipse':
+    case 'diamond': {
+      const box = { ...layout, x: layout.x + part.x, y: layout.y + part.y, width: part.width, height: part.height };
+      const element = part.type === 'rectangle' ? createRectangle(box, node, slot)
+        : part.type === 'ellipse' ? createEllipse(box, node, slot)
+        : createDiamond(box, node, slot);
+      return {
+        ...element,
+        ...fillColors,
+        roundness: part.type === 'rectangle' && part.rounded ? { type: 3 } : element.roundness,
+      };
+    }
+    case 'polygon':
+    case 'path':
+      return createPolyline(
+        part.points.map(([x, y]) => [layout.x + x, layout.y + y]),
+        slot,
+        {
+          ...style,
+          ...fillColors,
+          closed: part.type === 'polygon',
+          smooth: part.type === 'path' && part.smooth,
+        }
+      );
   }
 }
 
+/**
+ * Edge label bound to its arrow, centered on the arc-length midpoint of the path.
+ * The background keeps it readable where it crosses other lines.
+ */
+export function createEdgeLabel(
+  arrow: ExcalidrawElement,
+  edge: LayoutEdge,
+  slot: ElementSlot
+): ExcalidrawElement {
+  const fontSize = 12;
+  const label = edge.label ?? '';
+  const { width, height } = measureText(label, { fontSize });
+  const mid = pathMidpoint(edge.points);
+
+  const text = createText(mid.x - width / 2, mid.y - height / 2, label, slot, {
+    fontSize,
+    containerId: arrow.id,
+  });
+  arrow.boundElements = [...arrow.boundElements, { id: text.id, type: 'text' }];
+
+  return {
+    ...text,
+    backgroundColor: EDGE_LABEL_BACKGROUND,
+    fillStyle: 'solid',
+  };
+}
+
+/**
+ * Point halfway along a polyline, measured by length rather than by point count
+ */
+function pathMidpoint(points: Array<{ x: number; y: number }>): { x: number; y: number } {
+  const lengths = points.slice(1).map((p, i) => Math.hypot(p.x - points[i].x, p.y - points[i].y));
+  let remaining = lengths.reduce((sum, l) => sum + l, 0) / 2;
+
+  for (let i = 0; i < lengths.length; i++) {
+    if (remaining <= lengths[i] && lengths[i] > 0) {
+      const t = remaining / lengths[i];
+      return {
+        x: points[i].x + (points[i + 1].x - points[i].x) * t,
+        y: points[i].y + (points[i + 1].y - points[i].y) * t,
+      };
+    }
+    remaining -= lengths[i];
+  }
+
+  return points[points.length - 1];
+}
+
 export interface TextElementInfo {
   element: ExcalidrawElement;
   id: string;
@@ -260,37 +556,282 @@ export interface TextElementInfo {
 export function createNodeWithLabel(
   layout: LayoutNode,
   node: ParsedNode,
-  shapeIndex: string,
-  textIndex: string
-): { shape: ExcalidrawElement; text: TextElementInfo } {
-  const shape = nodeShapeToElement(layout, node, shapeIndex);
-
-  // Calculate text dimensions for proper centering (handles multi-line)
-  const fontSize = 16;
-  const lineHeight = 1.25;
-  const lines = node.label.split('\n');
-  const maxLineLength = Math.max(...lines.map(l => l.length));
-  const textWidth = maxLineLength * fontSize * 0.55;
-  const textHeight = lines.length * fontSize * lineHeight;
+  ctx: ConversionContext,
+  textAlign: 'left' | 'center' = 'center'
+): { shape: ExcalidrawElement; elements: ExcalidrawElement[]; text?: TextElementInfo } {
+  const { shape, elements } = nodeShapeToElements(layout, node, ctx);
+  if (LABELLESS_SHAPES.has(node.shape)) {
+    return { shape, elements };
+  }
 
-  // Center text inside shape
-  const textX = layout.x + (layout.width - textWidth) / 2;
-  const textY = layout.y + (layout.height - textHeight) / 2;
+  // Bound text is wrapped to the container and centered vertically, as Excalidraw does
+  const style = { fontFamily: node.bold ? BOLD_FONT_FAMILY : DEFAULT_FONT_FAMILY };
+  const text = wrapText(node.label, boundTextMaxWidth(shape), style);
+  const { width: textWidth, height: textHeight } = measureText(text, style);
 
-  // Use left alignment for multi-line text (like ER entities with attributes)
-  const textAlign = lines.length > 1 ? 'left' : 'center';
+  const textX = textAlign === 'left'
+    ? shape.x + BOUND_TEXT_PADDING
+    : shape.x + (shape.width - textWidth) / 2;
+  const textY = shape.y + (shape.height - textHeight) / 2;
 
-  const textElement = createText(textX, textY, node.label, textIndex, {
+  const textElement = createText(textX, textY, text, ctx.slot(`node:${node.id}:label`), {
     textAlign,
-    verticalAlign: 'top',
+    verticalAlign: 'middle',
+    strokeColor: node.style?.fontColor,
+    fontFamily: style.fontFamily,
+    rawText: node.rawLabel,
+    link: node.link && isWikiLink(node.link) ? node.link : undefined,
+    containerId: shape.id,
+    originalText: node.label,
   });
+  shape.boundElements = [...shape.boundElements, { id: textElement.id, type: 'text' }];
+
+  // Keep the label with composite shapes when they are moved
+  textElement.groupIds = [...shape.groupIds];
 
   return {
     shape,
+    elements,
     text: {
       element: textElement,
       id: textElement.id,
-      text: node.label,
+      // Wiki-links stay intact so Obsidian picks them up as backlinks
+      text: node.rawLabel ?? node.label,
     },
   };
 }
+
+/**
+ * Sequence diagram note: a yellow box with its text bound inside
+ */
+export function createNote(
+  note: LayoutNote,
+  ctx: ConversionContext,
+  key: string
+): { shape: ExcalidrawElement; text: TextElementInfo } {
+  const base = createBaseElement('rectangle', note.x, note.y, note.width, note.height, ctx.slot(key));
+  const shape = {
+    ...base,
+    type: 'rectangle',
+    strokeColor: NOTE_STROKE,
+    backgroundColor: NOTE_BACKGROUND,
+    fillStyle: 'solid',
+    hasTextLink: false,
+  } as ExcalidrawElement;
+
+  const text = wrapText(note.text, boundTextMaxWidth(shape));
+  const { width, height } = measureText(text);
+  const textElement = createText(
+    note.x + (note.width - width) / 2,
+    note.y + (note.height - height) / 2,
+    text,
+    ctx.slot(`${key}:label`),
+    { containerId: shape.id, originalText: note.text }
+  );
+  shape.boundElements = [{ id: textElement.id, type: 'text' }];
+
+  return { shape, text: { element: textElement, id: textElement.id, text: note.text } };
+}
+
+/**
+ * Activation bar: a narrow filled box over a participant's lifeline
+ */
+export function createActivation(bar: LayoutActivation, slot: ElementSlot): ExcalidrawElement {
+  const base = createBaseElement('rectangle', bar.x, bar.y, bar.width, bar.height, slot);
+  return {
+    ...base,
+    type: 'rectangle',
+    strokeColor: ACTIVATION_STROKE,
+    backgroundColor: ACTIVATION_BACKGROUND,
+    fillStyle: 'solid',
+    roughness: 0,
+    hasTextLink: false,
+  } as ExcalidrawElement;
+}
+
+/**
+ * Sequence participant box: a tinted background with its label centered at the top
+ */
+export function createParticipantBox(
+  box: LayoutBox,
+  ctx: ConversionContext,
+  key: string
+): { shape: ExcalidrawElement; text?: TextElementInfo } {
+  const base = createBaseElement('rectangle', box.x, box.y, box.width, box.height, ctx.slot(key));
+  const tinted = box.color !== undefined && box.color !== 'transparent';
+  const shape = {
+    ...base,
+    type: 'rectangle',
+    strokeColor: PARTICIPANT_BOX_STROKE,
+    backgroundColor: tinted ? box.color : 'transparent',
+    fillStyle: 'solid',
+    roughness: 0,
+    opacity: box.opacity ?? (tinted ? PARTICIPANT_BOX_OPACITY : 100),
+    hasTextLink: false,
+  } as ExcalidrawElement;
+
+  if (!box.label) {
+    return { shape };
+  }
+
+  const { width } = measureText(box.label, { fontSize: PARTICIPANT_BOX_FONT_SIZE });
+  const textElement = createText(
+    box.x + (box.width - width) / 2,
+    box.y + PARTICIPANT_BOX_LABEL_GAP,
+    box.label,
+    ctx.slot(`${key}:label`),
+    { fontSize: PARTICIPANT_BOX_FONT_SIZE, strokeColor: '#495057' }
+  );
+  return { shape, text: { element: textElement, id: textElement.id, text: box.label } };
+}
+
+/**
+ * X marking where a destroyed participant's lifeline ends, as two grouped strokes
+ */
+export function createDestroyMark(
+  x: number,
+  y: number,
+  ctx: ConversionContext,
+  key: string
+): ExcalidrawElement[] {
+  const half = DESTROY_MARK_SIZE / 2;
+  const groupIds = [ctx.id(`${key}:group`)];
+  const style = { strokeColor: DESTROY_MARK_STROKE, strokeWidth: 2 };
+  return [
+    createLine(x - half, y - half, x + half, y + half, ctx.slot(`${key}:0`), style),
+    createLine(x - half, y + half, x + half, y - half, ctx.slot(`${key}:1`), style),
+  ].map(line => ({ ...line, groupIds }));
+}
+
+/**
+ * Numbered badge centered on the point a sequence message leaves from,
+ * widening for numbers too long for the circle
+ */
+export function createSequenceNumber(
+  number: number,
+  at: { x: number; y: number },
+  ctx: ConversionContext,
+  key: string
+): { shape: ExcalidrawElement; text: TextElementInfo } {
+  const label = String(number);
+  const style = { fontSize: SEQUENCE_NUMBER_FONT_SIZE };
+  const measured = measureText(label, style);
+  const width = Math.max(SEQUENCE_NUMBER_SIZE, Math.ceil(measured.width) + BOUND_TEXT_PADDING * 2);
+  const height = SEQUENCE_NUMBER_SIZE;
+
+  const base = createBaseElement('ellipse', at.x - width / 2, at.y - height / 2, width, height, ctx.slot(key));
+  const shape = {
+    ...base,
+    type: 'ellipse',
+    strokeColor: SEQUENCE_NUMBER_BACKGROUND,
+    backgroundColor: SEQUENCE_NUMBER_BACKGROUND,
+    fillStyle: 'solid',
+    roughness: 0,
+    hasTextLink: false,
+  } as ExcalidrawElement;
+
+  const textElement = createText(
+    at.x - measured.width / 2,
+    at.y - measured.height / 2,
+    label,
+    ctx.slot(`${key}:label`),
+    { ...style, strokeColor: SEQUENCE_NUMBER_COLOR, containerId: shape.id }
+  );
+  shape.boundElements = [{ id: textElement.id, type: 'text' }];
+
+  return { shape, text: { element: textElement, id: textElement.id, text: label } };
+}
+
+/**
+ * Sequence fragment drawn as a UML combined fragment: an outline with the
+ * operator in a corner tag, the condition beside it, and dashed separators
+ * between sections. `rect` fragments are a plain filled background.
+ * Outlines go behind lifelines; tags cover them.
+ */
+export function createFragment(
+  fragment: LayoutFragment,
+  ctx: ConversionContext,
+  key: string
+): { outline: ExcalidrawElement[]; tags: ExcalidrawElement[]; labels: TextElementInfo[] } {
+  const { x, y, width, height } = fragment;
+  const groupIds = [ctx.id(`${key}:group`)];
+
+  if (fragment.kind === 'rect') {
+    const base = createBaseElement('rectangle', x, y, width, height, ctx.slot(key));
+    const background = {
+      ...base,
+      type: 'rectangle',
+      strokeColor: 'transparent',
+      backgroundColor: fragment.color ?? FRAGMENT_TAG_BACKGROUND,
+      fillStyle: 'solid',
+      opacity: fragment.opacity ?? 100,
+      hasTextLink: false,
+    } as ExcalidrawElement;
+    return { outline: [background], tags: [], labels: [] };
+  }
+
+  const base = createBaseElement('rectangle', x, y, width, height, ctx.slot(key));
+  const outline: ExcalidrawElement[] = [{
+    ...base,
+    type: 'rectangle',
+    strokeColor: FRAGMENT_STROKE,
+    hasTextLink: false,
+  } as ExcalidrawElement];
+
+  const labels: TextElementInfo[] = [];
+  const addLabel = (labelX: number, labelY: number, text: string, labelKey: string) => {
+    const element = createText(labelX, labelY, text, ctx.slot(labelKey), {
+      fontSize: FRAGMENT_FONT_SIZE,
+      textAlign: 'left',
+      verticalAlign: 'top',
+      strokeColor: FRAGMENT_STROKE,
+    });
+    element.groupIds = groupIds;
+    labels.push({ element, id: element.id, text });
+    return element;
+  };
+
+  // Operator tag with a cut corner, as in UML
+  const tagText = addLabel(x + FRAGMENT_TAG_PADDING, y + FRAGMENT_TAG_PADDING / 2, fragment.kind, `${key}:tag:label`);
+  const tagWidth = tagText.width + FRAGMENT_TAG_PADDING * 2;
+  const tagHeight = tagText.height + FRAGMENT_TAG_PADDING;
+  const cut = FRAGMENT_TAG_PADDING;
+  const tag = createPolyline(
+    [[x, y], [x + tagWidth + cut, y], [x + tagWidth + cut, y + tagHeight - cut], [x + tagWidth, y + tagHeight], [x, y + tagHeight]],
+    ctx.slot(`${key}:tag`),
+    { strokeColor: FRAGMENT_STROKE, backgroundColor: FRAGMENT_TAG_BACKGROUND, fillStyle: 'solid', closed: true }
+  );
+
+  if (fragment.label) {
+    addLabel(x + tagWidth + cut + FRAGMENT_TAG_PADDING * 2, y + FRAGMENT_TAG_PADDING / 2, `[${fragment.label}]`, `${key}:label`);
+  }
+
+  fragment.sections.forEach((section, index) => {
+    outline.push(createLine(x, section.y, x + width, section.y, ctx.slot(`${key}:section:${index}`), {
+      strokeColor: FRAGMENT_STROKE,
+      strokeStyle: 'dashed',
+    }));
+    if (section.label) {
+      addLabel(x + FRAGMENT_TAG_PADDING, section.y + FRAGMENT_TAG_PADDING / 2, `[${section.label}]`, `${key}:section:${index}:label`);
+    }
+  });
+
+  for (const element of [...outline, tag]) {
+    element.groupIds = groupIds;
+  }
+  return { outline, tags: [tag], labels };
+}
+
+/**
+ * Widest line that fits inside a container, following Excalidraw's rules for bound text
+ */
+function boundTextMaxWidth(container: ExcalidrawElement): number {
+  switch (container.type) {
+    case 'ellipse':
+      return Math.round((container.width / 2) * Math.sqrt(2)) - BOUND_TEXT_PADDING * 2;
+    case 'diamond':
+      return Math.round(container.width / 2) - BOUND_TEXT_PADDING * 2;
+    default:
+      return container.width - BOUND_TEXT_PADDING * 2;
+  }
+}
@@ -1,9 +1,17 @@
-import type { ParsedDiagram, ExcalidrawElement } from '../types/index.js';
-import { layoutDiagram } from './layout.js';
+import type { ParsedDiagram, ExcalidrawElement, SubgraphMode } from '../types/index.js';
+import { layoutDiagram, type LayoutResult, type LayoutNode, type LayoutSubgraph } from './layout.js';
 import {
   createNodeWithLabel,
   createArrow,
+  createEdgeLabel,
+  createNote,
+  createFragment,
+  createActivation,
+  createSequenceNumber,
+  createParticipantBox,
+  createDestroyMark,
   createSubgraphRect,
+  createFrame,
   createText,
   createLine,
   type TextElementInfo,
@@ -12,6 +20,10 @@ import {
 } from './elements.js';
 import { createExcalidrawDocument, formatObsidianFile } from '../formatter/obsidian.js';
 import { getStyleColors } from './styles.js';
+import { createConversionContext, type ConversionOptions } from './context.js';
+import { createLayers, stackLayers } from './zorder.js';
+
+export type { ConversionOptions } from './context.js';
 
 export interface ConversionResult {
   obsidianContent: string;
@@ -19,42 +31,95 @@ export interface ConversionResult {
   textInfos: TextElementInfo[];
 }
 
+// Flowchart subgraphs become frames for Obsidian's frame navigation; elsewhere grouping is enough
+const DEFAULT_SUBGRAPH_MODES: Record<ParsedDiagram['type'], SubgraphMode> = {
+  flowchart: 'frame',
+  sequence: 'frame',
+  er: 'group',
+  class: 'group',
+};
+
+/**
+ * Group and frame an element belongs to through its subgraph
+ */
+interface SubgraphContainer {
+  groupIds: string[]; // Innermost first, as Excalidraw expects
+  frameId: string | null;
+}
+
 /**
  * Convert a parsed diagram to Excalidraw format
  */
-export function convertToExcalidraw(diagram: ParsedDiagram): ConversionResult {
-  const layout = layoutDiagram(diagram);
-  const elements: ExcalidrawElement[] = [];
+export function convertToExcalidraw(
+  diagram: ParsedDiagram,
+  options: ConversionOptions = {}
+): ConversionResult {
+  const layout = layoutDiagram(diagram, {
+    edgeRouting: options.edgeRouting,
+    layout: options.layout,
+    spacing: options.spacing,
+    mirrorParticipants: options.mirrorParticipants,
+  });
+  const layers = createLayers();
   const textInfos: TextElementInfo[] = [];
-
-  let indexCounter = 0;
-  const nextIndex = () => `a${indexCounter++}`;
+  const ctx = createConversionContext(options);
 
   // Track shape element IDs for binding arrows
   const nodeElementIds = new Map<string, string>();
 
-  // Create subgraph backgrounds first (so they're behind nodes)
+  // Subgraphs become frames or groups; their members inherit the container
+  const subgraphMode = options.subgraphs ?? DEFAULT_SUBGRAPH_MODES[diagram.type];
+  const containers = new Map<string, SubgraphContainer>();
+
+  // Parents are listed before their nested subgraphs
   for (const sg of diagram.subgraphs) {
     const layoutSg = layout.subgraphs.find(l => l.id === sg.id);
-    if (layoutSg) {
-      // Subgraph rectangle
-      const sgRect = createSubgraphRect(layoutSg, sg, nextIndex());
-      elements.push(sgRect);
-
-      // Subgraph label
-      const labelText = createText(
-        layoutSg.x + 10,
-        layoutSg.y + 5,
-        layoutSg.label,
-        nextIndex(),
-        { fontSize: 14, textAlign: 'left', strokeColor: '#495057' }
-      );
-      elements.push(labelText);
-      textInfos.push({
-        element: labelText,
-        id: labelText.id,
-        text: layoutSg.label,
-      });
+    if (!layoutSg) continue;
+
+    const parent = sg.parent ? containers.get(sg.parent) : undefined;
+
+    if (subgraphMode === 'frame' && !parent) {
+      const frame = createFrame(layoutSg, ctx.slot(`subgraph:${sg.id}`));
+      layers.frames.push(frame);
+      containers.set(sg.id, { groupIds: [], frameId: frame.id });
+
+      // Edges can target a subgraph id directly
+      nodeElementIds.set(sg.id, frame.id);
+      continue;
+    }
+
+    const container: SubgraphContainer = {
+      groupIds: [ctx.id(`subgraph:${sg.id}:group`), ...(parent?.groupIds ?? [])],
+      frameId: parent?.frameId ?? null,
+    };
+    containers.set(sg.id, container);
+
+    // Subgraph rectangle
+    const sgRect = createSubgraphRect(layoutSg, sg, ctx.slot(`subgraph:${sg.id}`));
+    layers.subgraphs.push(placeIn(sgRect, container));
+    nodeElementIds.set(sg.id, sgRect.id);
+
+    // Subgraph label
+    const labelText = createText(
+      layoutSg.x + 10,
+      layoutSg.y + 5,
+      layoutSg.label,
+      ctx.slot(`subgraph:${sg.id}:label`),
+      { fontSize: 14, textAlign: 'left', strokeColor: '#495057' }
+    );
+    layers.labels.push(placeIn(labelText, container));
+    textInfos.push({
+      element: labelText,
+      id: labelText.id,
+      text: layoutSg.label,
+    });
+  }
+
+  // Innermost subgraph of every node
+  const owners = new Map<string, string>();
+  for (const sg of diagram.subgraphs) {
+    for (const nodeId of sg.nodes) {
+      owners.set(nodeId, sg.id);
     }
   }
 
@@ -63,92 +128,129 @@ export function convertToExcalidraw(diagram: ParsedDiagram): ConversionResult {
     const layoutNode = layout.nodes.get(node.id);
     if (!layoutNode) continue;
 
-    const { shape, text } = createNodeWithLabel(
-      layoutNode,
-      node,
-      nextIndex(),
-      nextIndex()
-    );
+    // ER entities list their attributes left-aligned under the name
+    const textAlign = diagram.type === 'er' && node.label.includes('\n') ? 'left' : 'center';
+    const { shape, elements: shapeElements, text } = createNodeWithLabel(layoutNode, node, ctx, textAlign);
 
     // Track the shape element ID for arrow bindings
     nodeElementIds.set(node.id, shape.id);
 
-    elements.push(shape);
-    elements.push(text.element);
-    textInfos.push(text);
+    const container = containerOf(owners.get(node.id), containers);
+    layers.shapes.push(...shapeElements.map(element => placeIn(element, container)));
+    if (text) {
+      layers.labels.push(placeIn(text.element, container));
+      textInfos.push(text);
+    }
 
     // For ER diagrams: add separator line between entity name and attributes
-    if (diagram.type === 'er' && node.label.includes('\n')) {
-      const lines = node.label.split('\n');
-      const fontSize = 16;
-      const lineHeight = 1.25;
-      const firstLineHeight = fontSize * lineHeight;
-      const separatorY = layoutNode.y + (layoutNode.height - lines.length * firstLineHeight) / 2 + firstLineHeight + 2;
+    if (diagram.type === 'er' && node.label.includes('\n') && text) {
+      const { element } = text;
+      const separatorY = element.y + element.fontSize! * element.lineHeight! + 2;
 
       const separatorLine = createLine(
         layoutNode.x + 8,
         separatorY,
         layoutNode.x + layoutNode.width - 8,
         separatorY,
-        nextIndex(),
+        ctx.slot(`node:${node.id}:separator`),
         { strokeColor: '#868e96', strokeWidth: 1 }
       );
-      elements.push(separatorLine);
+      layers.shapes.push(placeIn(separatorLine, container));
     }
   }
 
+  // Activation bar element IDs, for binding sequence messages
+  const activationIds: string[] = [];
+
   // For sequence diagrams: add lifelines (vertical dashed lines from participants)
   if (diagram.type === 'sequence') {
-    // Find the maximum Y position of all edges to determine lifeline length
-    let maxMessageY = 0;
-    for (const edge of layout.edges) {
-      for (const point of edge.points) {
-        maxMessageY = Math.max(maxMessageY, point.y);
+    // Participant boxes sit behind everything else
+    (layout.boxes ?? []).forEach((box, index) => {
+      const { shape, text } = createParticipantBox(box, ctx, `box:${index}`);
+      layers.subgraphs.push(shape);
+      if (text) {
+        layers.labels.push(text.element);
+        textInfos.push(text);
       }
-    }
-    const lifelineEndY = maxMessageY + 80; // Extend a bit past the last message
-
-    for (const node of diagram.nodes) {
-      const layoutNode = layout.nodes.get(node.id);
-      if (!layoutNode) continue;
-
-      const centerX = layoutNode.x + layoutNode.width / 2;
-      const startY = layoutNode.y + layoutNode.height;
+    });
 
+    for (const line of layout.lifelines ?? []) {
       const lifeline = createLine(
-        centerX,
-        startY,
-        centerX,
-        lifelineEndY,
-        nextIndex(),
+        line.x,
+        line.top,
+        line.x,
+        line.bottom,
+        ctx.slot(`lifeline:${line.participant}`),
         { strokeColor: '#868e96', strokeStyle: 'dashed', strokeWidth: 1 }
       );
-      elements.push(lifeline);
+      layers.lifelines.push(lifeline);
+      if (line.destroyed) {
+        layers.notes.push(...createDestroyMark(line.x, line.bottom, ctx, `lifeline:${line.participant}:destroy`));
+      }
     }
-  }
 
-  // Create arrows with bindings
-  const arrowElements: ExcalidrawElement[] = [];
+    // Mirrored headers at the bottom; arrows stay bound to the ones at the top
+    for (const mirror of layout.mirrors ?? []) {
+      const node = diagram.nodes.find(candidate => candidate.id === mirror.id);
+      if (!node) continue;
+      const { elements: shapeElements, text } = createNodeWithLabel(mirror, node, ctx);
+      layers.shapes.push(...shapeElements);
+      if (text) {
+        layers.labels.push(text.element);
+        textInfos.push(text);
+      }
+    }
 
-  // Find the corresponding parsed edge for line style info
-  const parsedEdgeMap = new Map<string, typeof diagram.edges[0]>();
-  for (const edge of diagram.edges) {
-    parsedEdgeMap.set(`${edge.source}->${edge.target}`, edge);
+    // Activation bars cover the lifelines, nested bars over the ones they sit on
+    (layout.activations ?? []).forEach((bar, index) => {
+      const element = createActivation(bar, ctx.slot(`activation:${index}`));
+      layers.lifelines.push(element);
+      activationIds.push(element.id);
+    });
+
+    // Fragment outlines sit behind the lifelines, their tags cover them
+    (layout.fragments ?? []).forEach((fragment, index) => {
+      const { outline, tags, labels } = createFragment(fragment, ctx, `fragment:${index}`);
+      layers.subgraphs.push(...outline);
+      layers.notes.push(...tags);
+      for (const label of labels) {
+        layers.labels.push(label.element);
+        textInfos.push(label);
+      }
+    });
+
+    // Notes cover the lifelines they sit on
+    (layout.notes ?? []).forEach((note, index) => {
+      const { shape, text } = createNote(note, ctx, `note:${index}`);
+      layers.notes.push(shape);
+      layers.labels.push(text.element);
+      textInfos.push(text);
+    });
   }
 
+  // Create arrows with bindings
   for (const layoutEdge of layout.edges) {
     // Create bindings to connect arrows to shapes
-    const sourceElementId = nodeElementIds.get(layoutEdge.source);
-    const targetElementId = nodeElementIds.get(layoutEdge.target);
+    // Sequence messages attached to an activation bar bind to the bar
+    const sourceElementId = layoutEdge.sourceActivation !== undefined
+      ? activationIds[layoutEdge.sourceActivation]
+      : nodeElementIds.get(layoutEdge.source);
+    const targetElementId = layoutEdge.targetActivation !== undefined
+      ? activationIds[layoutEdge.targetActivation]
+      : nodeElementIds.get(layoutEdge.target);
 
     const bindings: ArrowBindings = {};
 
+    // Elbow arrows keep their attachment points when shapes move
+    const elbowed = layoutEdge.routing === 'orthogonal';
+    const points = layoutEdge.points;
+
     if (sourceElementId) {
       bindings.startBinding = {
         elementId: sourceElementId,
         focus: 0,
         gap: 1,
-        fixedPoint: null,
+        fixedPoint: elbowed ? fixedPoint(points[0], endpointBox(layoutEdge.source, layout)) : null,
       };
     }
 
@@ -157,36 +259,35 @@ export function convertToExcalidraw(diagram: ParsedDiagram): ConversionResult {
         elementId: targetElementId,
         focus: 0,
         gap: 1,
-        fixedPoint: null,
+        fixedPoint: elbowed ? fixedPoint(points[points.length - 1], endpointBox(layoutEdge.target, layout)) : null,
       };
     }
 
-    // Get line style from parsed edge (for dashed sequence diagram returns)
-    const parsedEdge = parsedEdgeMap.get(`${layoutEdge.source}->${layoutEdge.target}`);
-    const lineStyle = parsedEdge?.lineStyle ?? layoutEdge.lineStyle ?? 'solid';
-
+    // Line style and arrowheads come from the layout edge (e.g. dashed sequence returns)
     const arrowOptions: ArrowOptions = {
       bindings,
-      strokeStyle: lineStyle,
     };
 
-    const arrow = createArrow(layoutEdge, nextIndex(), arrowOptions);
-    arrowElements.push(arrow);
-    elements.push(arrow);
+    const arrow = createArrow(layoutEdge, ctx.slot(`edge:${layoutEdge.source}->${layoutEdge.target}`), arrowOptions);
+    // Arrows inside one subgraph move with it
+    const edgeContainer = containerOf(
+      commonSubgraph(layoutEdge.source, layoutEdge.target, owners, diagram),
+      containers
+    );
+    layers.arrows.push(placeIn(arrow, edgeContainer));
+
+    // `autonumber` badge over the start of a sequence message
+    if (layoutEdge.sequenceNumber !== undefined && points.length > 0) {
+      const badge = createSequenceNumber(layoutEdge.sequenceNumber, points[0], ctx, `edge:${arrow.id}:number`);
+      layers.notes.push(badge.shape);
+      layers.labels.push(badge.text.element);
+      textInfos.push(badge.text);
+    }
 
-    // Edge label if present
+    // Edge label if present, bound to the arrow so it follows it around
     if (layoutEdge.label && layoutEdge.points.length >= 2) {
-      const midX = (layoutEdge.points[0].x + layoutEdge.points[1].x) / 2;
-      const midY = (layoutEdge.points[0].y + layoutEdge.points[1].y) / 2;
-
-      const labelText = createText(
-        midX - (layoutEdge.label.length * 12 * 0.55) / 2,
-        midY - 10,
-        layoutEdge.label,
-        nextIndex(),
-        { fontSize: 12 }
-      );
-      elements.push(labelText);
+      const labelText = createEdgeLabel(arrow, layoutEdge, ctx.slot(`edge:${arrow.id}:label`));
+      layers.labels.push(placeIn(labelText, edgeContainer));
       textInfos.push({
         element: labelText,
         id: labelText.id,
@@ -195,12 +296,14 @@ export function convertToExcalidraw(diagram: ParsedDiagram): ConversionResult {
     }
   }
 
+  const elements = stackLayers(layers);
+
   // Update shape boundElements to reference the arrows
   for (const element of elements) {
-    if (element.type === 'rectangle' || element.type === 'ellipse') {
+    if (['rectangle', 'ellipse', 'diamond', 'frame'].includes(element.type)) {
       const boundArrows: Array<{ id: string; type: 'arrow' }> = [];
 
-      for (const arrow of arrowElements) {
+      for (const arrow of layers.arrows) {
         if (arrow.startBinding?.elementId === element.id ||
             arrow.endBinding?.elementId === element.id) {
           boundArrows.push({ id: arrow.id, type: 'arrow' });
@@ -208,7 +311,7 @@ export function convertToExcalidraw(diagram: ParsedDiagram): ConversionResult {
       }
 
       if (boundArrows.length > 0) {
-        element.boundElements = boundArrows;
+        element.boundElements = [...element.boundElements, ...boundArrows];
       }
     }
   }
@@ -222,3 +325,55 @@ export function convertToExcalidraw(diagram: ParsedDiagram): ConversionResult {
     textInfos,
   };
 }
+
+function placeIn(element: ExcalidrawElement, container: SubgraphContainer | undefined): ExcalidrawElement {
+  if (container) {
+    element.groupIds = [...element.groupIds, ...container.groupIds];
+    element.frameId = container.frameId;
+  }
+  return element;
+}
+
+function containerOf(
+  subgraphId: string | undefined,
+  containers: Map<string, SubgraphContainer>
+): SubgraphContainer | undefined {
+  return subgraphId === undefined ? undefined : containers.get(subgraphId);
+}
+
+/**
+ * Innermost subgraph containing both edge endpoints (an endpoint may be a subgraph itself)
+ */
+function commonSubgraph(
+  source: string,
+  target: string,
+  owners: Map<string, string>,
+  diagram: ParsedDiagram
+): string | undefined {
+  const parents = new Map(diagram.subgraphs.map(sg => [sg.id, sg.parent]));
+  const chain = (id: string): string[] => {
+    const ids: string[] = [];
+    for (let sg = parents.has(id) ? id : owners.get(id); sg !== undefined; sg = parents.get(sg)) {
+      ids.push(sg);
+    }
+    return ids;
+  };
+
+  const targetChain = new Set(chain(target));
+  return chain(source).find(id => targetChain.has(id));
+}
+
+function endpointBox(id: string, layout: LayoutResult): LayoutNode | LayoutSubgraph | undefined {
+  return layout.nodes.get(id) ?? layout.subgraphs.find(sg => sg.id === id);
+}
+
+/**
+ * A point on an element's border as fractions of its width and height
+ */
+function fixedPoint(
+  point: { x: number; y: number } | undefined,
+  box: LayoutNode | LayoutSubgraph | undefined
+): [number, number] | null {
+  if (!point || !box || box.width === 0 || box.height === 0) return null;
+  return [(point.x - box.x) / box.width, (point.y - box.y) / box.height];
+}
@@ -0,0 +1,424 @@
+import type { Direction } from '../types/index.js';
+
+/**
+ * Layered (Sugiyama-style) graph layout:
+ *
+ * 1. break cycles by reversing DFS back edges
+ * 2. rank with longest paths, honoring `minLength`, then pull sources down to their successors
+ * 3. split edges spanning several ranks with dummy nodes
+ * 4. order each rank with alternating median sweeps, keeping the order with fewest crossings
+ * 5. place nodes across the flow by repeatedly moving them toward their neighbours,
+ *    finishing with parents centered over their children
+ */
+
+export interface LayeredItem {
+  id: string;
+  width: number;
+  height: number;
+}
+
+export interface LayeredEdge {
+  source: string;
+  target: string;
+  minLength?: number;
+}
+
+export interface LayeredOptions {
+  direction: Direction;
+  nodeGap: number; // Between neighbours in a rank
+  rankGap: number; // Between ranks
+}
+
+export interface LayeredResult {
+  positions: Map<string, { x: number; y: number }>; // Top-left corners
+  bends: Array<Array<{ x: number; y: number }>>; // Dummy node centers per input edge, source to target
+  width: number;
+  height: number;
+}
+
+// Alternating up/down sweeps for crossing reduction
+const ORDER_SWEEPS = 12;
+// Rounds of down/up passes for coordinate assignment
+const POSITION_ROUNDS = 8;
+
+/**
+ * An edge of the acyclic graph; `reversed` edges point against their input direction
+ */
+interface Link {
+  from: number;
+  to: number;
+  minLength: number;
+  edge: number;
+  reversed: boolean;
+  dummies: number[];
+}
+
+export function layeredLayout(
+  items: LayeredItem[],
+  edges: LayeredEdge[],
+  options: LayeredOptions
+): LayeredResult {
+  const isHorizontal = options.direction === 'LR' || options.direction === 'RL';
+  const isReverse = options.direction === 'RL' || options.direction === 'BT';
+
+  const indexOf = new Map(items.map((item, i) => [item.id, i]));
+  const links: Link[] = [];
+  edges.forEach((edge, i) => {
+    const from = indexOf.get(edge.source);
+    const to = indexOf.get(edge.target);
+    if (from === undefined || to === undefined || from === to) return;
+    links.push({ from, to, minLength: Math.max(1, edge.minLength ?? 1), edge: i, reversed: false, dummies: [] });
+  });
+
+  breakCycles(items.length, links);
+  const itemRanks = assignRanks(items.length, links);
+
+  // Virtual graph: real items first, then dummy nodes for long edges
+  const rank = [...itemRanks];
+  const mainSize = items.map(item => isHorizontal ? item.width : item.height);
+  const crossSize = items.map(item => isHorizontal ? item.height : item.width);
+  const isDummy = items.map(() => false);
+  const preds: number[][] = items.map(() => []);
+  const succs: number[][] = items.map(() => []);
+
+  const connect = (upper: number, lower: number) => {
+    succs[upper].push(lower);
+    preds[lower].push(upper);
+  };
+
+  for (const link of links) {
+    let previous = link.from;
+    for (let r = rank[link.from] + 1; r < rank[link.to]; r++) {
+      const dummy = rank.length;
+      rank.push(r);
+      mainSize.push(0);
+      crossSize.push(0);
+      isDummy.push(true);
+      preds.push([]);
+      succs.push([]);
+      connect(previous, dummy);
+      link.dummies.push(dummy);
+      previous = dummy;
+    }
+    connect(previous, link.to);
+  }
+
+  const rankCount = rank.reduce((max, r) => Math.max(max, r), 0) + 1;
+  const layers = orderLayers(initialOrder(rank, preds, succs, rankCount), preds, succs);
+
+  // Dummies pack closer together than real nodes
+  const separation = (a: number, b: number) => {
+    const gap = isDummy[a] && isDummy[b] ? options.nodeGap / 4
+      : isDummy[a] || isDummy[b] ? options.nodeGap / 2
+      : options.nodeGap;
+    return (crossSize[a] + crossSize[b]) / 2 + gap;
+  };
+  const cross = assignCrossPositions(layers, preds, succs, separation);
+
+  // Normalize so the layout starts at 0 across the flow
+  let minCross = Infinity;
+  let maxCross = -Infinity;
+  for (let v = 0; v < rank.length; v++) {
+    minCross = Math.min(minCross, cross[v] - crossSize[v] / 2);
+    maxCross = Math.max(maxCross, cross[v] + crossSize[v] / 2);
+  }
+  if (rank.length === 0) {
+    minCross = 0;
+    maxCross = 0;
+  }
+
+  // Ranks are as deep as their largest item
+  const rankExtents = layers.map(layer => layer.reduce((max, v) => Math.max(max, mainSize[v]), 0));
+  const rankStarts: number[] = [];
+  let totalMain = 0;
+  rankExtents.forEach((extent, r) => {
+    rankStarts.push(totalMain);
+    totalMain += extent + (r < rankExtents.length - 1 ? options.rankGap : 0);
+  });
+
+  const mainCenter = (v: number) => {
+    const center = rankStarts[rank[v]] + rankExtents[rank[v]] / 2;
+    return isReverse ? totalMain - center : center;
+  };
+  const toPoint = (main: number, crossPos: number) =>
+    isHorizontal ? { x: main, y: crossPos - minCross } : { x: crossPos - minCross, y: main };
+
+  const positions = new Map<string, { x: number; y: number }>();
+  items.forEach((item, v) => {
+    const center = toPoint(mainCenter(v), cross[v]);
+    positions.set(item.id, { x: center.x - item.width / 2, y: center.y - item.height / 2 });
+  });
+
+  const bends: LayeredResult['bends'] = edges.map(() => []);
+  for (const link of links) {
+    const points = link.dummies.map(v => toPoint(mainCenter(v), cross[v]));
+    bends[link.edge] = link.reversed ? points.reverse() : points;
+  }
+
+  const totalCross = maxCross - minCross;
+  return {
+    positions,
+    bends,
+    width: isHorizontal ? totalMain : totalCross,
+    height: isHorizontal ? totalCross : totalMain,
+  };
+}
+
+/**
+ * Reverse the edges that close a cycle. DFS starts from sources so that
+ * the edges reversed are the ones pointing back up the natural flow.
+ */
+function breakCycles(count: number, links: Link[]): void {
+  const outgoing: number[][] = Array.from({ length: count }, () => []);
+  const hasIncoming = new Array<boolean>(count).fill(false);
+  links.forEach((link, i) => {
+    outgoing[link.from].push(i);
+    hasIncoming[link.to] = true;
+  });
+
+  const roots = [...Array(count).keys()].sort((a, b) => Number(hasIncoming[a]) - Number(hasIncoming[b]));
+  const state = new Uint8Array(count); // 0 = unvisited, 1 = on the DFS stack, 2 = done
+
+  for (const root of roots) {
+    if (state[root] !== 0) continue;
+    state[root] = 1;
+    const stack = [{ node: root, next: 0 }];
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      if (frame.next >= outgoing[frame.node].length) {
+        state[frame.node] = 2;
+        stack.pop();
+        continue;
+      }
+
+      const link = links[outgoing[frame.node][frame.next++]];
+      if (state[link.to] === 1) {
+        [link.from, link.to] = [link.to, link.from];
+        link.reversed = true;
+      } else if (state[link.to] === 0) {
+        state[link.to] = 1;
+        stack.push({ node: link.to, next: 0 });
+      }
+    }
+  }
+}
+
+/**
+ * Longest-path ranking over the acyclic links, then sources move down next to
+ * their nearest successor so they don't all pile up in the first rank
+ */
+function assignRanks(count: number, links: Link[]): number[] {
+  const outgoing: Link[][] = Array.from({ length: count }, () => []);
+  const inDegree = new Array<number>(count).fill(0);
+  for (const link of links) {
+    outgoing[link.from].push(link);
+    inDegree[link.to]++;
+  }
+
+  const ranks = new Array<number>(count).fill(0);
+  const remaining = [...inDegree];
+  const queue = [...Array(count).keys()].filter(v => inDegree[v] === 0);
+  const topological: number[] = [];
+
+  for (let head = 0; head < queue.length; head++) {
+    const v = queue[head];
+    topological.push(v);
+    for (const link of outgoing[v]) {
+      ranks[link.to] = Math.max(ranks[link.to], ranks[v] + link.minLength);
+      if (--remaining[link.to] === 0) {
+        queue.push(link.to);
+      }
+    }
+  }
+
+  for (const v of topological) {
+    if (inDegree[v] === 0 && outgoing[v].length > 0) {
+      ranks[v] = outgoing[v].reduce((min, link) => Math.min(min, ranks[link.to] - link.minLength), Infinity);
+    }
+  }
+
+  const minRank = ranks.reduce((min, r) => Math.min(min, r), 0);
+  return ranks.map(r => r - minRank);
+}
+
+/**
+ * Initial order: depth-first from the sources, so connected nodes start out close together
+ */
+function initialOrder(rank: number[], preds: number[][], succs: number[][], rankCount: number): number[][] {
+  const layers: number[][] = Array.from({ length: rankCount }, () => []);
+  const visited = new Uint8Array(rank.length);
+  const roots = [...Array(rank.length).keys()].sort((a, b) => Number(preds[a].length > 0) - Number(preds[b].length > 0));
+
+  for (const root of roots) {
+    if (visited[root]) continue;
+    const stack = [root];
+    while (stack.length > 0) {
+      const v = stack.pop()!;
+      if (visited[v]) continue;
+      visited[v] = 1;
+      layers[rank[v]].push(v);
+      for (let i = succs[v].length - 1; i >= 0; i--) {
+        if (!visited[succs[v][i]]) stack.push(succs[v][i]);
+      }
+    }
+  }
+
+  return layers;
+}
+
+/**
+ * Crossing reduction with the median heuristic, sweeping down and up the ranks
+ */
+function orderLayers(layers: number[][], preds: number[][], succs: number[][]): number[][] {
+  const position = new Int32Array(preds.length);
+  const updatePositions = (layer: number[]) => layer.forEach((v, i) => { position[v] = i; });
+  layers.forEach(updatePositions);
+
+  let best = layers.map(layer => [...layer]);
+  let bestCrossings = countCrossings(layers, succs, position);
+
+  for (let sweep = 0; sweep < ORDER_SWEEPS && bestCrossings > 0; sweep++) {
+    const down = sweep % 2 === 0;
+    const order = down
+      ? [...layers.keys()].slice(1)
+      : [...layers.keys()].reverse().slice(1);
+
+    for (const r of order) {
+      layers[r] = sortByMedian(layers[r], down ? preds : succs, position);
+      updatePositions(layers[r]);
+    }
+
+    const crossings = countCrossings(layers, succs, position);
+    if (crossings < bestCrossings) {
+      bestCrossings = crossings;
+      best = layers.map(layer => [...layer]);
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Sort a rank by the median position of each node's neighbours in the adjacent rank.
+ * Nodes without neighbours there keep their slot.
+ */
+function sortByMedian(layer: number[], neighbours: number[][], position: Int32Array): number[] {
+  const movable = layer
+    .filter(v => neighbours[v].length > 0)
+    .map(v => ({ v, key: median(neighbours[v].map(u => position[u])) }))
+    .sort((a, b) => a.key - b.key || position[a.v] - position[b.v]);
+
+  let next = 0;
+  return layer.map(v => neighbours[v].length > 0 ? movable[next++].v : v);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Total edge crossings between adjacent ranks, counted as inversions with a Fenwick tree
+ */
+function countCrossings(layers: number[][], succs: number[][], position: Int32Array): number {
+  let crossings = 0;
+
+  for (let r = 0; r < layers.length - 1; r++) {
+    const size = layers[r + 1].length;
+    const tree = new Int32Array(size + 1);
+    let inserted = 0;
+
+    for (const u of layers[r]) {
+      // Edges from nodes further left that end to the right of this one cross it;
+      // edges sharing `u` are only inserted afterwards, as they never cross each other
+      for (const v of succs[u]) {
+        let atOrBefore = 0;
+        for (let i = position[v] + 1; i > 0; i -= i & -i) atOrBefore += tree[i];
+        crossings += inserted - atOrBefore;
+      }
+      for (const v of succs[u]) {
+        for (let i = position[v] + 1; i <= size; i += i & -i) tree[i]++;
+        inserted++;
+      }
+    }
+  }
+
+  return crossings;
+}
+
+/**
+ * Cross-axis centers: each pass moves a rank toward the mean of its neighbours
+ * in the previous rank while keeping order and spacing
+ */
+function assignCrossPositions(
+  layers: number[][],
+  preds: number[][],
+  succs: number[][],
+  separation: (a: number, b: number) => number
+): number[] {
+  const cross = new Array<number>(preds.length).fill(0);
+
+  for (const layer of layers) {
+    let position = 0;
+    layer.forEach((v, i) => {
+      if (i > 0) position += separation(layer[i - 1], v);
+      cross[v] = position;
+    });
+  }
+
+  const pass = (r: number, neighbours: number[][]) => {
+    const layer = layers[r];
+    const desired = layer.map(v => neighbours[v].length > 0
+      ? neighbours[v].reduce((sum, u) => sum + cross[u], 0) / neighbours[v].length
+      : cross[v]);
+    placeLayer(layer, desired, separation).forEach((position, i) => { cross[layer[i]] = position; });
+  };
+
+  // Ending on an upward pass centers parents over their children
+  for (let round = 0; round < POSITION_ROUNDS; round++) {
+    for (let r = 1; r < layers.length; r++) pass(r, preds);
+    for (let r = layers.length - 2; r >= 0; r--) pass(r, succs);
+  }
+
+  return cross;
+}
+
+/**
+ * Closest positions to `desired` that keep the rank's order and minimum spacing
+ * (isotonic regression with pool-adjacent-violators)
+ */
+function placeLayer(
+  layer: number[],
+  desired: number[],
+  separation: (a: number, b: number) => number
+): number[] {
+  const offsets = [0];
+  for (let i = 1; i < layer.length; i++) {
+    offsets.push(offsets[i - 1] + separation(layer[i - 1], layer[i]));
+  }
+
+  // Blocks of nodes that end up packed together, each at the mean of its targets
+  const blocks: Array<{ sum: number; count: number }> = [];
+  for (let i = 0; i < layer.length; i++) {
+    blocks.push({ sum: desired[i] - offsets[i], count: 1 });
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const previous = blocks[blocks.length - 2];
+      if (previous.sum / previous.count < last.sum / last.count) break;
+      previous.sum += last.sum;
+      previous.count += last.count;
+      blocks.pop();
+    }
+  }
+
+  const positions: number[] = [];
+  for (const block of blocks) {
+    const value = block.sum / block.count;
+    for (let i = 0; i < block.count; i++) {
+      positions.push(value + offsets[positions.length]);
+    }
+  }
+  return positions;
+}
@@ -1,4 +1,29 @@
-import type { ParsedDiagram, ParsedNode, ParsedEdge, ParsedSubgraph } from '../types/index.js';
+import type {
+  ParsedDiagram,
+  ParsedEdge,
+  ParsedNode,
+  ParsedSubgraph,
+  SequenceEvent,
+  SequenceNote,
+  FragmentKind,
+  EdgeArrowhead,
+  EdgeWeight,
+  NodeShape,
+  EdgeRouting,
+  LayoutEngine,
+  LayoutSpacing,
+} from '../types/index.js';
+import type { LayeredEdge } from './layered.js';
+import { placeItems } from './placement.js';
+import { routeEdges, type RouteBox, type RouteEdge } from './routing.js';
+import { BOX_SHAPES } from './shapes.js';
+import {
+  measureText,
+  wrapText,
+  BOLD_FONT_FAMILY,
+  BOUND_TEXT_PADDING,
+  DEFAULT_FONT_FAMILY,
+} from './text.js';
 
 export interface LayoutNode {
   id: string;
@@ -13,8 +38,17 @@ export interface LayoutEdge {
   target: string;
   points: Array<{ x: number; y: number }>;
   label?: string;
-  lineStyle?: 'solid' | 'dashed';
+  lineStyle?: 'solid' | 'dashed' | 'dotted';
   strokeColor?: string;
+  strokeWidth?: number;
+  arrowType?: ParsedEdge['arrowType'];
+  startArrowhead?: EdgeArrowhead;
+  endArrowhead?: EdgeArrowhead;
+  weight?: EdgeWeight;
+  routing?: EdgeRouting; // Set for routed edges; straight edges leave it out
+  sourceActivation?: number; // Activation bar a sequence message leaves from, by index
+  targetActivation?: number; // Activation bar a sequence message arrives at, by index
+  sequenceNumber?: number; // From `autonumber`
 }
 
 export interface LayoutSubgraph {
@@ -26,10 +60,63 @@ export interface LayoutSubgraph {
   label: string;
 }
 
+export interface LayoutNote {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  text: string;
+}
+
+export interface LayoutActivation {
+  participant: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface LayoutFragment {
+  kind: FragmentKind;
+  label: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  sections: Array<{ y: number; label: string }>; // Separators for `else`, `and` and `option`
+  color?: string;
+  opacity?: number;
+}
+
+export interface LayoutLifeline {
+  participant: string;
+  x: number;
+  top: number;
+  bottom: number;
+  destroyed: boolean; // Ends in an X at the message that destroys the participant
+}
+
+// Tinted background behind the participants of a sequence `box`
+export interface LayoutBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  label: string;
+  color?: string;
+  opacity?: number;
+}
+
 export interface LayoutResult {
   nodes: Map<string, LayoutNode>;
   edges: LayoutEdge[];
   subgraphs: LayoutSubgraph[];
+  notes?: LayoutNote[]; // Sequence diagram notes, in timeline order
+  fragments?: LayoutFragment[]; // Sequence diagram fragments, enclosing ones first
+  activations?: LayoutActivation[]; // Sequence diagram activation bars, in order of activation
+  lifelines?: LayoutLifeline[]; // Sequence diagram lifelines, one per participant
+  mirrors?: LayoutNode[]; // Sequence participant headers repeated below the lifelines
+  boxes?: LayoutBox[]; // Sequence participant boxes
   width: number;
   height: number;
 }
@@ -40,155 +127,574 @@ const DEFAULT_NODE_HEIGHT = 60;
 const HORIZONTAL_GAP = 80;
 const VERTICAL_GAP = 100;
 const SUBGRAPH_PADDING = 40;
-const LABEL_HEIGHT = 30;
+const SUBGRAPH_LABEL_GAP = 12; // Between a subgraph's label and its contents
 const SEQUENCE_LIFELINE_HEIGHT = 400;
 const SEQUENCE_MESSAGE_GAP = 60;
+const SEQUENCE_NOTE_MAX_WIDTH = 200;
+const SEQUENCE_NOTE_PADDING = 10;
+const SEQUENCE_NOTE_OFFSET = 10; // Between a lifeline and a note beside it
+const SEQUENCE_NOTE_OVERHANG = 20; // How far a note over participants reaches past their lifelines
+const FRAGMENT_PADDING = 20; // Between a fragment's border and the lifelines, notes or fragments inside
+const FRAGMENT_HEADER_HEIGHT = 30; // Room for the tag or a section's condition below its top line
+const FRAGMENT_END_GAP = 10; // Between the bottoms of nested fragments
+const FRAGMENT_LABEL_FONT_SIZE = 14;
+const ACTIVATION_WIDTH = 12;
+const ACTIVATION_MIN_HEIGHT = 20;
+const SELF_MESSAGE_WIDTH = 40; // How far a message to the sender's own lifeline loops out
+const SELF_MESSAGE_HEIGHT = 30; // Drop between where a self-message leaves and returns
+const EDGE_LABEL_FONT_SIZE = 12;
+const SEQUENCE_LIFELINE_TAIL = 80; // How far lifelines reach past the last message, note or bar
+const PARTICIPANT_BOX_PADDING = 10; // Between a participant box and the headers inside it
+const PARTICIPANT_BOX_LABEL_FONT_SIZE = 14;
+
+// Shapes drawn at a fixed size regardless of their label
+const FIXED_SHAPE_SIZES: Partial<Record<NodeShape, { width: number; height: number }>> = {
+  'small-circle': { width: 30, height: 30 },
+  'filled-circle': { width: 20, height: 20 },
+  'framed-circle': { width: 36, height: 36 },
+  'fork': { width: 120, height: 12 },
+  'crossed-circle': { width: 60, height: 60 },
+};
+
+// Labels wrap rather than growing a node past this width
+const MAX_LABEL_WIDTH = 240;
+const LABEL_PADDING = 20;
+const MIN_CIRCLE_SIZE = 100;
+const SUBGRAPH_LABEL_FONT_SIZE = 14;
+
+/**
+ * Node dimensions that fit its wrapped label inside the shape's text area
+ */
+function calculateNodeSize(node: ParsedNode): { width: number; height: number } {
+  const fixed = FIXED_SHAPE_SIZES[node.shape];
+  if (fixed) {
+    return fixed;
+  }
+
+  const style = { fontFamily: node.bold ? BOLD_FONT_FAMILY : DEFAULT_FONT_FAMILY };
+  const text = measureText(wrapText(node.label, MAX_LABEL_WIDTH, style), style);
+  const innerWidth = Math.ceil(text.width) + BOUND_TEXT_PADDING * 2;
+  const innerHeight = Math.ceil(text.height) + BOUND_TEXT_PADDING * 2;
+
+  switch (node.shape) {
+    case 'diamond':
+      // Bound text only gets the middle half of a diamond
+      return {
+        width: Math.max(DEFAULT_NODE_WIDTH, innerWidth * 2),
+        height: Math.max(DEFAULT_NODE_HEIGHT, innerHeight * 2),
+      };
+    case 'ellipse':
+      return {
+        width: Math.max(DEFAULT_NODE_WIDTH, Math.ceil(innerWidth * Math.SQRT2)),
+        height: Math.max(DEFAULT_NODE_HEIGHT, Math.ceil(innerHeight * Math.SQRT2)),
+      };
+    case 'circle':
+    case 'double-circle': {
+      // Bound text gets the square inscribed in the circle
+      const size = Math.max(MIN_CIRCLE_SIZE, Math.ceil(Math.max(innerWidth, innerHeight) * Math.SQRT2));
+      return { width: size, height: size };
+    }
+    default:
+      return {
+        width: Math.max(DEFAULT_NODE_WIDTH, Math.ceil(text.width) + LABEL_PADDING * 2),
+        height: Math.max(DEFAULT_NODE_HEIGHT, Math.ceil(text.height) + LABEL_PADDING * 2),
+      };
+  }
+}
+
+/**
+ * Edge attributes that pass through layout unchanged
+ */
+function edgeStyle(edge: ParsedEdge): Omit<LayoutEdge, 'source' | 'target' | 'points'> {
+  return {
+    label: edge.label,
+    lineStyle: edge.style?.strokeStyle ?? edge.lineStyle,
+    strokeColor: edge.style?.strokeColor,
+    strokeWidth: edge.style?.strokeWidth,
+    arrowType: edge.arrowType,
+    startArrowhead: edge.startArrowhead,
+    endArrowhead: edge.endArrowhead,
+    weight: edge.weight,
+  };
+}
+
+export interface LayoutOptions {
+  edgeRouting?: EdgeRouting;
+  /** Placement engine; overrides the diagram's `layout:` directive */
+  layout?: LayoutEngine;
+  /** Spacing overrides, applied over the diagram's `spacing:` directive */
+  spacing?: LayoutSpacing;
+  /** Repeat sequence participant headers below the lifelines */
+  mirrorParticipants?: boolean;
+}
+
+// Placement engine when neither the options nor the directive pick one
+const DEFAULT_ENGINES: Record<ParsedDiagram['type'], LayoutEngine> = {
+  flowchart: 'layered',
+  sequence: 'layered',
+  er: 'force',
+  class: 'layered',
+};
 
 /**
- * Calculate node dimensions based on label content
+ * Placement engine and spacing overrides shared by every cluster of a diagram
  */
-function calculateNodeSize(label: string): { width: number; height: number } {
-  const lines = label.split('\n');
-  const maxLineLength = Math.max(...lines.map(l => l.length));
-  const width = Math.max(DEFAULT_NODE_WIDTH, maxLineLength * 9 + 20);
-  const height = Math.max(DEFAULT_NODE_HEIGHT, lines.length * 20 + 20);
-  return { width, height };
+interface PlacementSettings {
+  engine: LayoutEngine;
+  spacing: LayoutSpacing;
 }
 
 /**
  * Layout algorithm dispatcher
  */
-export function layoutDiagram(diagram: ParsedDiagram): LayoutResult {
+export function layoutDiagram(diagram: ParsedDiagram, options: LayoutOptions = {}): LayoutResult {
+  const edgeRouting = options.edgeRouting ?? 'orthogonal';
+  const settings: PlacementSettings = {
+    engine: options.layout ?? diagram.directive.layout ?? DEFAULT_ENGINES[diagram.type],
+    spacing: { ...diagram.directive.spacing, ...definedSpacing(options.spacing) },
+  };
   switch (diagram.type) {
     case 'sequence':
-      return layoutSequenceDiagram(diagram);
+      return layoutSequenceDiagram(diagram, settings.spacing, options.mirrorParticipants ?? false);
     case 'er':
-      return layoutERDiagram(diagram);
+      return layoutERDiagram(diagram, edgeRouting, settings);
     default:
-      return layoutFlowchart(diagram);
+      return layoutFlowchart(diagram, edgeRouting, settings);
   }
 }
 
 /**
- * Sequence diagram layout: participants in a row, messages as horizontal arrows
- * Includes lifeline information for rendering
+ * Spacing overrides without unset keys, so they don't mask the directive's values
  */
-function layoutSequenceDiagram(diagram: ParsedDiagram): LayoutResult {
+function definedSpacing(spacing: LayoutSpacing = {}): LayoutSpacing {
+  return Object.fromEntries(Object.entries(spacing).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Sequence diagram layout: participants in a row, then the timeline from top to
+ * bottom with messages as horizontal arrows and notes beside or over lifelines.
+ * Participants are spread apart where a note beside a lifeline needs the room.
+ * Fragments span the lifelines their contents touch, and each header or
+ * section adds a row for its label. Activation bars run between the messages
+ * that open and close them, nested bars stepping right, and messages attach
+ * to the side of the innermost bar facing the other participant. Messages to
+ * the sender itself loop out to the right and take an extra step of height.
+ * Created participants drop down to the message that creates them, and
+ * destroyed ones have their lifeline cut at the message that destroys them.
+ */
+function layoutSequenceDiagram(diagram: ParsedDiagram, spacing: LayoutSpacing, mirror: boolean): LayoutResult {
   const { nodes, edges } = diagram;
   const nodePositions = new Map<string, LayoutNode>();
+  const participantGap = spacing.nodeGap ?? HORIZONTAL_GAP + 40;
+  const messageGap = spacing.rankGap ?? SEQUENCE_MESSAGE_GAP;
+  const events: SequenceEvent[] = diagram.sequence?.events ?? edges.map((_, edge) => ({ kind: 'message', edge }));
 
-  // Calculate total height needed for all messages
-  const messageCount = edges.length;
-  const messagesHeight = messageCount * SEQUENCE_MESSAGE_GAP + 80;
-
-  // Place participants horizontally with more spacing
-  let x = 0;
-  for (const node of nodes) {
-    const size = calculateNodeSize(node.label);
-    // Store lifeline info in the node dimensions (height includes lifeline)
-    nodePositions.set(node.id, {
-      id: node.id,
-      x,
-      y: 0,
-      width: Math.max(size.width, 120), // Minimum width for readability
-      height: size.height,
-    });
-    x += Math.max(size.width, 120) + HORIZONTAL_GAP + 40; // More spacing between participants
+  const sizes = nodes.map(node => {
+    const size = calculateNodeSize(node);
+    return { width: Math.max(size.width, 120), height: size.height }; // Minimum width for readability
+  });
+
+  // Distance between neighbouring lifelines
+  const order = new Map(nodes.map((node, i) => [node.id, i]));
+  const distances = sizes.slice(1).map((size, i) => sizes[i].width / 2 + participantGap + size.width / 2);
+  const widen = (neighbour: number | undefined, room: number) => {
+    if (neighbour !== undefined && neighbour >= 0 && neighbour < distances.length) {
+      distances[neighbour] = Math.max(distances[neighbour], room);
+    }
+  };
+  for (const event of events) {
+    if (event.kind === 'note' && event.note.placement !== 'over') {
+      const index = order.get(event.note.participants[0]);
+      const neighbour = index === undefined ? undefined : event.note.placement === 'right' ? index : index - 1;
+      widen(neighbour, noteSize(event.note.text, SEQUENCE_NOTE_MAX_WIDTH).width + SEQUENCE_NOTE_OFFSET * 2);
+    }
+
+    // Self-messages loop out to the right, with their label centered on the loop
+    const edge = event.kind === 'message' ? edges[event.edge] : undefined;
+    if (edge && edge.source === edge.target) {
+      const label = measureText(edge.label ?? '', { fontSize: EDGE_LABEL_FONT_SIZE }).width;
+      widen(order.get(edge.source), SELF_MESSAGE_WIDTH + label / 2 + SEQUENCE_NOTE_OFFSET * 2);
+    }
   }
 
-  // Layout messages as horizontal arrows between lifelines
+  // Place participants horizontally, below the labels of any boxes
+  const boxModels = diagram.sequence?.boxes ?? [];
+  const boxLabelHeight = boxModels.filter(box => box.label).reduce(
+    (max, box) => Math.max(max, measureText(box.label, { fontSize: PARTICIPANT_BOX_LABEL_FONT_SIZE }).height),
+    0
+  );
+  const headerTop = boxModels.length > 0 ? Math.ceil(boxLabelHeight) + PARTICIPANT_BOX_PADDING * 2 : 0;
+  let center = sizes.length > 0 ? sizes[0].width / 2 : 0;
+  nodes.forEach((node, i) => {
+    if (i > 0) center += distances[i - 1];
+    nodePositions.set(node.id, { id: node.id, x: center - sizes[i].width / 2, y: headerTop, ...sizes[i] });
+  });
+  const lifeline = (id: string) => {
+    const node = nodePositions.get(id);
+    return node ? node.x + node.width / 2 : undefined;
+  };
+
+  // Walk the timeline: messages as horizontal arrows between lifelines, notes in between
   const layoutEdges: LayoutEdge[] = [];
-  let messageY = DEFAULT_NODE_HEIGHT + 60; // Start below participant boxes
-
-  for (const edge of edges) {
-    const source = nodePositions.get(edge.source);
-    const target = nodePositions.get(edge.target);
-
-    if (source && target) {
-      // Arrows connect at the lifeline centers (middle of participant boxes)
-      const startX = source.x + source.width / 2;
-      const endX = target.x + target.width / 2;
-
-      layoutEdges.push({
-        source: edge.source,
-        target: edge.target,
-        points: [
-          { x: startX, y: messageY },
-          { x: endX, y: messageY },
-        ],
-        label: edge.label,
-      });
-
-      messageY += SEQUENCE_MESSAGE_GAP;
+  const notes: LayoutNote[] = [];
+  const fragments: LayoutFragment[] = [];
+  const fragmentModels = diagram.sequence?.fragments ?? [];
+  const headerHeight = sizes.reduce((max, size) => Math.max(max, size.height), DEFAULT_NODE_HEIGHT);
+  let cursor = headerTop + headerHeight + 60; // Start below participant boxes
+  // Where destroyed participants' lifelines end
+  const destroyed = new Map<string, number>();
+
+  // Open fragments, outermost first, widened by everything placed inside them
+  const open: Array<{ fragment: number; top: number; left: number; right: number; sections: LayoutFragment['sections'] }> = [];
+  const touch = (left: number, right: number) => {
+    for (const entry of open) {
+      entry.left = Math.min(entry.left, left);
+      entry.right = Math.max(entry.right, right);
     }
+  };
+
+  // Open activation bars per participant, innermost last
+  const activations: LayoutActivation[] = [];
+  const active = new Map<string, number[]>();
+  let lastMessageY: number | undefined;
+  // Explicit (de)activations take effect at the message just before them
+  const activationTime = () => lastMessageY ?? cursor - messageGap / 3;
+  const activate = (id: string, y: number) => {
+    const center = lifeline(id);
+    if (center === undefined) return;
+    const stack = active.get(id) ?? [];
+    active.set(id, stack);
+    const x = center - ACTIVATION_WIDTH / 2 + (stack.length * ACTIVATION_WIDTH) / 2;
+    activations.push({ participant: id, x, y, width: ACTIVATION_WIDTH, height: ACTIVATION_MIN_HEIGHT });
+    stack.push(activations.length - 1);
+  };
+  const deactivate = (id: string, y: number) => {
+    const index = active.get(id)?.pop();
+    if (index === undefined) return;
+    activations[index].height = Math.max(ACTIVATION_MIN_HEIGHT, y - activations[index].y);
+  };
+  const attach = (id: string, center: number, towards: number): { x: number; activation?: number } => {
+    const activation = active.get(id)?.at(-1);
+    if (activation === undefined) return { x: center };
+    const bar = activations[activation];
+    return { x: towards >= center ? bar.x + bar.width : bar.x, activation };
+  };
+
+  for (const event of events) {
+    switch (event.kind) {
+      case 'note': {
+        const note = placeNote(event.note, lifeline);
+        if (!note) break;
+        // Notes take the message label's share of the step above them
+        note.y = cursor - messageGap / 3;
+        notes.push(note);
+        touch(note.x, note.x + note.width);
+        cursor = note.y + note.height + (messageGap * 2) / 3;
+        lastMessageY = undefined;
+        break;
+      }
+
+      case 'activate':
+        activate(event.participant, activationTime());
+        break;
+
+      case 'deactivate':
+        deactivate(event.participant, activationTime());
+        break;
+
+      case 'message': {
+        const edge = edges[event.edge];
+        const startX = lifeline(edge.source);
+        const endX = lifeline(edge.target);
+        if (startX === undefined || endX === undefined) break;
+
+        // A created participant's header is centered on the message, which may need extra room
+        const created = event.createTarget ? nodePositions.get(edge.target) : undefined;
+        if (created) {
+          cursor += Math.max(0, (created.height - messageGap) / 2);
+          created.y = cursor - created.height / 2;
+        }
+
+        // Arrows connect at the lifeline centers (middle of participant boxes), or at activation bars;
+        // a self-message returns lower down, onto a bar it opens there
+        const self = edge.source === edge.target;
+        const endY = self ? cursor + SELF_MESSAGE_HEIGHT : cursor;
+        const start = attach(edge.source, startX, endX);
+        if (event.activateTarget) activate(edge.target, endY);
+        const end = created
+          ? { x: startX <= endX ? created.x : created.x + created.width, activation: undefined }
+          : attach(edge.target, endX, startX);
+        const loopX = Math.max(start.x, end.x) + SELF_MESSAGE_WIDTH;
+        layoutEdges.push({
+          source: edge.source,
+          target: edge.target,
+          points: self
+            ? [
+                { x: start.x, y: cursor },
+                { x: loopX, y: cursor },
+                { x: loopX, y: endY },
+                { x: end.x, y: endY },
+              ]
+            : [
+                { x: start.x, y: cursor },
+                { x: end.x, y: endY },
+              ],
+          ...edgeStyle(edge),
+          sourceActivation: start.activation,
+          targetActivation: end.activation,
+          sequenceNumber: event.number,
+        });
+        if (event.deactivateSource) deactivate(edge.source, endY);
+
+        // Destroyed participants close their bars and lifeline here
+        const ended = [event.destroySource && edge.source, event.destroyTarget && edge.target];
+        for (const id of ended) {
+          if (!id) continue;
+          while ((active.get(id)?.length ?? 0) > 0) deactivate(id, endY);
+          destroyed.set(id, endY);
+        }
+
+        touch(Math.min(startX, endX), Math.max(startX, self ? loopX : endX));
+        lastMessageY = endY;
+        cursor = Math.max(endY + messageGap, created ? cursor + (created.height + messageGap) / 2 : 0);
+        break;
+      }
+
+      case 'fragmentStart': {
+        const top = cursor - messageGap / 3;
+        open.push({ fragment: event.fragment, top, left: Infinity, right: -Infinity, sections: [] });
+        lastMessageY = undefined;
+        // A `rect` has no header to make room for
+        cursor += fragmentModels[event.fragment]?.kind === 'rect' ? FRAGMENT_END_GAP : FRAGMENT_HEADER_HEIGHT;
+        break;
+      }
+
+      case 'fragmentSection': {
+        const entry = open.find(candidate => candidate.fragment === event.fragment);
+        if (!entry) break;
+        entry.sections.push({ y: cursor - messageGap / 3, label: event.label });
+        cursor += FRAGMENT_HEADER_HEIGHT;
+        lastMessageY = undefined;
+        break;
+      }
+
+      case 'fragmentEnd': {
+        const index = open.findIndex(candidate => candidate.fragment === event.fragment);
+        const model = fragmentModels[event.fragment];
+        if (index < 0 || !model) break;
+        const [entry] = open.splice(index, 1);
+        const bottom = cursor - messageGap / 3;
+        cursor += FRAGMENT_END_GAP;
+        lastMessageY = undefined;
+        // Fragments with nothing inside are left out
+        if (entry.left > entry.right) break;
+
+        const left = entry.left - FRAGMENT_PADDING;
+        const width = Math.max(entry.right + FRAGMENT_PADDING - left, fragmentHeaderWidth(model.kind, model.label));
+        fragments.push({
+          kind: model.kind,
+          label: model.label,
+          x: left,
+          y: entry.top,
+          width,
+          height: bottom - entry.top,
+          sections: entry.sections,
+          color: model.color,
+          opacity: model.opacity,
+        });
+        touch(left, left + width);
+        break;
+      }
+    }
+  }
+
+  // Bars still open at the end run to the bottom of the timeline
+  for (const id of active.keys()) {
+    while (active.get(id)!.length > 0) deactivate(id, cursor - messageGap / 3);
   }
 
-  const width = x;
-  const height = messageY + 60;
+  // Enclosing fragments end after the ones inside them; list them first so they stack behind
+  fragments.sort((a, b) => a.y - b.y || b.height - a.height);
 
-  return { nodes: nodePositions, edges: layoutEdges, subgraphs: [], width, height };
+  // Lifelines run past everything on the timeline, unless their participant was destroyed
+  let timelineEnd = headerTop + headerHeight;
+  for (const edge of layoutEdges) {
+    for (const point of edge.points) timelineEnd = Math.max(timelineEnd, point.y);
+  }
+  for (const box of [...notes, ...fragments, ...activations]) {
+    timelineEnd = Math.max(timelineEnd, box.y + box.height);
+  }
+  const lifelineEnd = SEQUENCE_LIFELINE_TAIL + timelineEnd;
+  const lifelines: LayoutLifeline[] = [...nodePositions.values()].map(node => ({
+    participant: node.id,
+    x: node.x + node.width / 2,
+    top: node.y + node.height,
+    bottom: destroyed.get(node.id) ?? lifelineEnd,
+    destroyed: destroyed.has(node.id),
+  }));
+
+  // Mirrored headers hang from the end of the surviving lifelines
+  const mirrors = mirror
+    ? [...nodePositions.values()].filter(node => !destroyed.has(node.id)).map(node => ({ ...node, y: lifelineEnd }))
+    : [];
+  const bottom = mirrors.length > 0 ? lifelineEnd + headerHeight : lifelineEnd;
+
+  const boxes = boxModels.flatMap(box => {
+    const members = box.participants.flatMap(id => nodePositions.get(id) ?? []);
+    if (members.length === 0) return [];
+    const left = members.reduce((min, node) => Math.min(min, node.x), Infinity) - PARTICIPANT_BOX_PADDING;
+    const right = members.reduce((max, node) => Math.max(max, node.x + node.width), -Infinity) + PARTICIPANT_BOX_PADDING;
+    const labelWidth = measureText(box.label, { fontSize: PARTICIPANT_BOX_LABEL_FONT_SIZE }).width;
+    const width = Math.max(right - left, Math.ceil(labelWidth) + PARTICIPANT_BOX_PADDING * 2);
+    return [{
+      x: left - (width - (right - left)) / 2,
+      y: 0,
+      width,
+      height: bottom + PARTICIPANT_BOX_PADDING,
+      label: box.label,
+      color: box.color,
+      opacity: box.opacity,
+    }];
+  });
+
+  const width = [...nodePositions.values(), ...notes, ...fragments, ...boxes]
+    .reduce((max, box) => Math.max(max, box.x + box.width), 0);
+  const height = Math.max(cursor, bottom) + 60;
+
+  return {
+    nodes: nodePositions,
+    edges: layoutEdges,
+    subgraphs: [],
+    notes,
+    fragments,
+    activations,
+    lifelines,
+    mirrors,
+    boxes,
+    width,
+    height,
+  };
+}
+
+/**
+ * Narrowest fragment that fits its tag and condition side by side
+ */
+function fragmentHeaderWidth(kind: FragmentKind, label: string): number {
+  if (kind === 'rect') return 0;
+  const style = { fontSize: FRAGMENT_LABEL_FONT_SIZE };
+  const tag = measureText(kind, style).width + FRAGMENT_PADDING;
+  const condition = label ? measureText(`[${label}]`, style).width + FRAGMENT_PADDING : 0;
+  return Math.ceil(tag + condition + FRAGMENT_PADDING);
+}
+
+/**
+ * A note's box, horizontally placed against its lifelines; `y` is left to the caller
+ */
+function placeNote(note: SequenceNote, lifeline: (id: string) => number | undefined): LayoutNote | undefined {
+  const centers = note.participants.map(lifeline);
+  if (centers.some(center => center === undefined)) return undefined;
+  const [first, last = first] = centers as number[];
+
+  if (note.placement === 'over') {
+    const left = Math.min(first, last) - SEQUENCE_NOTE_OVERHANG;
+    const span = Math.abs(last - first) + SEQUENCE_NOTE_OVERHANG * 2;
+    const size = noteSize(note.text, Math.max(SEQUENCE_NOTE_MAX_WIDTH, span - SEQUENCE_NOTE_PADDING * 2));
+    const width = Math.max(span, size.width);
+    return { x: left + (span - width) / 2, y: 0, width, height: size.height, text: note.text };
+  }
+
+  const size = noteSize(note.text, SEQUENCE_NOTE_MAX_WIDTH);
+  const x = note.placement === 'right'
+    ? first + SEQUENCE_NOTE_OFFSET
+    : first - SEQUENCE_NOTE_OFFSET - size.width;
+  return { x, y: 0, ...size, text: note.text };
+}
+
+/**
+ * Box fitting a note's text wrapped at `maxWidth`
+ */
+function noteSize(text: string, maxWidth: number): { width: number; height: number } {
+  const size = measureText(wrapText(text, maxWidth));
+  return {
+    width: Math.ceil(size.width) + SEQUENCE_NOTE_PADDING * 2,
+    height: Math.ceil(size.height) + SEQUENCE_NOTE_PADDING * 2,
+  };
 }
 
 /**
- * ER diagram layout: entities in a grid with relationships
+ * ER diagram layout: entities placed by the chosen engine, force-directed by default
+ * so related tables sit together, with relationships routed between their nearest sides
  */
-function layoutERDiagram(diagram: ParsedDiagram): LayoutResult {
+function layoutERDiagram(diagram: ParsedDiagram, edgeRouting: EdgeRouting, settings: PlacementSettings): LayoutResult {
   const { nodes, edges } = diagram;
-  const nodePositions = new Map<string, LayoutNode>();
 
   // Calculate sizes for all nodes (ER entities can be tall with attributes)
-  const sizes = new Map<string, { width: number; height: number }>();
-  for (const node of nodes) {
-    sizes.set(node.id, calculateNodeSize(node.label));
-  }
+  const items = nodes.map(node => ({ id: node.id, ...calculateNodeSize(node) }));
 
-  // Use more columns for better horizontal spread
-  const cols = Math.min(4, Math.ceil(Math.sqrt(nodes.length) * 1.5));
-  let maxRowHeight = 0;
-  let x = 0;
-  let y = 0;
-  let col = 0;
-
-  // Increase gaps for ER diagrams
-  const erHorizontalGap = HORIZONTAL_GAP + 60;
-  const erVerticalGap = VERTICAL_GAP + 40;
-
-  for (const node of nodes) {
-    const size = sizes.get(node.id)!;
-
-    nodePositions.set(node.id, {
-      id: node.id,
-      x,
-      y,
-      width: size.width,
-      height: size.height,
-    });
-
-    maxRowHeight = Math.max(maxRowHeight, size.height);
-    x += size.width + erHorizontalGap;
-    col++;
-
-    if (col >= cols) {
-      col = 0;
-      x = 0;
-      y += maxRowHeight + erVerticalGap;
-      maxRowHeight = 0;
-    }
-  }
+  // ER diagrams get wider gaps than flowcharts, leaving room for relationship labels
+  const placement = placeItems(settings.engine, items, edges, {
+    direction: diagram.direction,
+    nodeGap: settings.spacing.nodeGap ?? HORIZONTAL_GAP + 60,
+    rankGap: settings.spacing.rankGap ?? VERTICAL_GAP + 40,
+  });
 
-  // Layout edges with offset for overlapping labels
-  const layoutEdges = edges.map((edge, index) =>
-    layoutEdgeGenericWithOffset(edge, nodePositions, index)
-  );
+  const nodePositions = new Map<string, LayoutNode>();
+  for (const item of items) {
+    nodePositions.set(item.id, { ...item, ...placement.positions.get(item.id)! });
+  }
 
-  const allX = Array.from(nodePositions.values()).map(n => n.x + n.width);
-  const allY = Array.from(nodePositions.values()).map(n => n.y + n.height);
-  const width = Math.max(...allX) + HORIZONTAL_GAP;
-  const height = Math.max(...allY) + VERTICAL_GAP;
+  // Layout edges with offset for overlapping labels, or route them between entity sides
+  const layoutEdges = edgeRouting === 'straight'
+    ? edges.map((edge, index) => layoutEdgeGenericWithOffset(edge, nodePositions, index))
+    : routedEdges(
+        edges,
+        edges.map(edge => ({ ...edge, horizontal: isMostlyHorizontal(edge, nodePositions) })),
+        nodePositions,
+        [...nodePositions.values()],
+        new Set(nodePositions.keys()),
+        edgeRouting
+      );
+
+  const boxes = [...nodePositions.values()];
+  const width = boxes.reduce((max, box) => Math.max(max, box.x + box.width), -Infinity) + HORIZONTAL_GAP;
+  const height = boxes.reduce((max, box) => Math.max(max, box.y + box.height), -Infinity) + VERTICAL_GAP;
 
   return { nodes: nodePositions, edges: layoutEdges, subgraphs: [], width, height };
 }
 
+/**
+ * Orthogonal paths around the other nodes, with ports spread along shared sides
+ */
+function routedEdges(
+  edges: ParsedEdge[],
+  routes: RouteEdge[],
+  boxes: Map<string, LayoutNode>,
+  obstacles: RouteBox[],
+  spread: ReadonlySet<string>,
+  edgeRouting: EdgeRouting
+): LayoutEdge[] {
+  const paths = routeEdges(routes, boxes, { obstacles, spread });
+  return edges.map((edge, index) => ({
+    source: edge.source,
+    target: edge.target,
+    points: paths[index],
+    routing: edgeRouting,
+    ...edgeStyle(edge),
+  }));
+}
+
+/**
+ * Whether an edge runs more sideways than up or down, judged by its end centers
+ */
+function isMostlyHorizontal(edge: ParsedEdge, nodePositions: Map<string, LayoutNode>): boolean {
+  const source = nodePositions.get(edge.source);
+  const target = nodePositions.get(edge.target);
+  if (!source || !target) return false;
+  const dx = (target.x + target.width / 2) - (source.x + source.width / 2);
+  const dy = (target.y + target.height / 2) - (source.y + source.height / 2);
+  return Math.abs(dx) > Math.abs(dy);
+}
+
 /**
  * Generic edge layout - finds best connection points
  */
@@ -208,7 +714,7 @@ function layoutEdgeGenericWithOffset(
   const target = nodePositions.get(edge.target);
 
   if (!source || !target) {
-    return { source: edge.source, target: edge.target, points: [], label: edge.label };
+    return { source: edge.source, target: edge.target, points: [], ...edgeStyle(edge) };
   }
 
   // Small offset based on edge index to prevent overlapping lines
@@ -253,90 +759,81 @@ function layoutEdgeGenericWithOffset(
     source: edge.source,
     target: edge.target,
     points: [{ x: startX, y: startY }, { x: endX, y: endY }],
-    label: edge.label,
+    ...edgeStyle(edge),
   };
 }
 
 /**
- * Flowchart layout: nodes in rows based on dependency depth
+ * A laid-out cluster: the top level of a flowchart or the contents of a subgraph.
+ * Positions are relative to the block's top-left corner.
  */
-function layoutFlowchart(diagram: ParsedDiagram): LayoutResult {
-  const { nodes, edges, subgraphs, direction } = diagram;
-  const isHorizontal = direction === 'LR' || direction === 'RL';
-  const isReverse = direction === 'RL' || direction === 'BT';
-
-  // Build adjacency for depth calculation
-  const adjacency = buildAdjacency(nodes, edges);
-
-  // Calculate depth (rank) for each node
-  const depths = calculateDepths(nodes, adjacency);
-
-  // Group nodes by depth
-  const nodesByDepth = groupByDepth(nodes, depths);
+interface ClusterBlock {
+  width: number;
+  height: number;
+  nodes: Map<string, LayoutNode>;
+  subgraphs: LayoutSubgraph[];
+  bends: Map<number, Array<{ x: number; y: number }>>; // Routing points of long edges, by edge index
+}
 
-  // Calculate positions
-  const nodePositions = new Map<string, LayoutNode>();
-  const maxNodesInRow = Math.max(...nodesByDepth.map(row => row.length));
+/**
+ * Subgraph nesting: which subgraph directly contains each node or subgraph
+ */
+interface ClusterHierarchy {
+  subgraphs: Map<string, ParsedSubgraph>;
+  owners: Map<string, string>;
+}
 
-  nodesByDepth.forEach((rowNodes, depthIndex) => {
-    const rowWidth = rowNodes.length * (DEFAULT_NODE_WIDTH + HORIZONTAL_GAP) - HORIZONTAL_GAP;
-    const startOffset = ((maxNodesInRow * (DEFAULT_NODE_WIDTH + HORIZONTAL_GAP) - HORIZONTAL_GAP) - rowWidth) / 2;
+/**
+ * Flowchart layout: layered (Sugiyama-style) placement by default, see `layeredLayout`,
+ * or any other engine from `placeItems`. Each subgraph is laid out on its own, in its
+ * own direction, and then placed as a single block inside its parent so its members
+ * stay together.
+ */
+function layoutFlowchart(diagram: ParsedDiagram, edgeRouting: EdgeRouting, settings: PlacementSettings): LayoutResult {
+  const { edges, subgraphs, direction } = diagram;
 
-    rowNodes.forEach((node, colIndex) => {
-      let x: number, y: number;
+  const hierarchy: ClusterHierarchy = {
+    subgraphs: new Map(subgraphs.map(sg => [sg.id, sg])),
+    owners: new Map(subgraphs.flatMap(sg => sg.nodes.map(id => [id, sg.id] as const))),
+  };
 
-      if (isHorizontal) {
-        x = depthIndex * (DEFAULT_NODE_WIDTH + HORIZONTAL_GAP);
-        y = startOffset + colIndex * (DEFAULT_NODE_HEIGHT + VERTICAL_GAP);
-      } else {
-        x = startOffset + colIndex * (DEFAULT_NODE_WIDTH + HORIZONTAL_GAP);
-        y = depthIndex * (DEFAULT_NODE_HEIGHT + VERTICAL_GAP);
-      }
+  const root = layoutCluster(undefined, direction, diagram, hierarchy, settings);
+  const nodePositions = root.nodes;
+  const layoutSubgraphs = root.subgraphs;
 
-      if (isReverse) {
-        const maxDepth = nodesByDepth.length - 1;
-        if (isHorizontal) {
-          x = (maxDepth - depthIndex) * (DEFAULT_NODE_WIDTH + HORIZONTAL_GAP);
-        } else {
-          y = (maxDepth - depthIndex) * (DEFAULT_NODE_HEIGHT + VERTICAL_GAP);
-        }
-      }
+  // Edges may target a subgraph id (`A --> ClusterB`) and then attach to its box
+  const endpoints = new Map(nodePositions);
+  for (const sg of layoutSubgraphs) {
+    endpoints.set(sg.id, { id: sg.id, x: sg.x, y: sg.y, width: sg.width, height: sg.height });
+  }
 
-      nodePositions.set(node.id, {
-        id: node.id,
-        x,
-        y,
-        width: DEFAULT_NODE_WIDTH,
-        height: DEFAULT_NODE_HEIGHT,
-      });
-    });
+  // Calculate edge paths, following the direction of the innermost subgraph holding both ends.
+  // Engines without a flow direction leave edges to run the way their ends lie.
+  const horizontal = edges.map(edge => {
+    if (settings.engine !== 'layered') {
+      return isMostlyHorizontal(edge, endpoints);
+    }
+    const cluster = commonCluster(edge.source, edge.target, hierarchy);
+    const edgeDirection = clusterDirection(cluster, direction, hierarchy);
+    return edgeDirection === 'LR' || edgeDirection === 'RL';
   });
 
-  // Layout subgraphs (bounding boxes around their nodes)
-  const layoutSubgraphs = subgraphs.map(sg => layoutSubgraph(sg, nodePositions));
-
-  // Adjust node positions if inside subgraphs
-  for (const sg of layoutSubgraphs) {
-    const subgraphDef = subgraphs.find(s => s.id === sg.id);
-    if (!subgraphDef) continue;
-
-    for (const nodeId of subgraphDef.nodes) {
-      const pos = nodePositions.get(nodeId);
-      if (pos) {
-        // Already inside bounding box, no adjustment needed
-        // Subgraph was calculated to wrap nodes
-      }
-    }
+  let layoutEdges: LayoutEdge[];
+  if (edgeRouting === 'straight') {
+    layoutEdges = edges.map((edge, index) => layoutEdge(edge, endpoints, horizontal[index], root.bends.get(index)));
+  } else {
+    const spread = new Set([
+      ...diagram.nodes.filter(node => BOX_SHAPES.has(node.shape)).map(node => node.id),
+      ...layoutSubgraphs.map(sg => sg.id),
+    ]);
+    const obstacles: RouteBox[] = [...endpoints.values()];
+    layoutEdges = routedEdges(edges, edges.map((edge, i) => ({ ...edge, horizontal: horizontal[i] })), endpoints, obstacles, spread, edgeRouting);
   }
 
-  // Calculate edge paths
-  const layoutEdges = edges.map(edge => layoutEdge(edge, nodePositions, isHorizontal));
-
   // Calculate total dimensions
-  const allX = Array.from(nodePositions.values()).map(n => n.x + n.width);
-  const allY = Array.from(nodePositions.values()).map(n => n.y + n.height);
-  const width = Math.max(...allX, ...layoutSubgraphs.map(s => s.x + s.width)) + HORIZONTAL_GAP;
-  const height = Math.max(...allY, ...layoutSubgraphs.map(s => s.y + s.height)) + VERTICAL_GAP;
+  const boxes = [...nodePositions.values(), ...layoutSubgraphs];
+  const width = boxes.reduce((max, box) => Math.max(max, box.x + box.width), -Infinity) + HORIZONTAL_GAP;
+  const height = boxes.reduce((max, box) => Math.max(max, box.y + box.height), -Infinity) + VERTICAL_GAP;
 
   return {
     nodes: nodePositions,
@@ -347,126 +844,205 @@ function layoutFlowchart(diagram: ParsedDiagram): LayoutResult {
   };
 }
 
-function buildAdjacency(
-  nodes: ParsedNode[],
-  edges: ParsedEdge[]
-): Map<string, { incoming: string[]; outgoing: string[] }> {
-  const adjacency = new Map<string, { incoming: string[]; outgoing: string[] }>();
-
-  for (const node of nodes) {
-    adjacency.set(node.id, { incoming: [], outgoing: [] });
+/**
+ * Lay out the direct members of a cluster (undefined = top level).
+ * Nested subgraphs are laid out first and treated as single items here.
+ */
+function layoutCluster(
+  clusterId: string | undefined,
+  direction: ParsedDiagram['direction'],
+  diagram: ParsedDiagram,
+  hierarchy: ClusterHierarchy,
+  settings: PlacementSettings
+): ClusterBlock {
+  const nodesById = new Map(diagram.nodes.map(n => [n.id, n]));
+  const nodeIds = new Set(nodesById.keys());
+  const subgraph = clusterId === undefined ? undefined : hierarchy.subgraphs.get(clusterId);
+  const items = subgraph
+    ? [...subgraph.nodes.filter(id => nodeIds.has(id)), ...subgraph.children]
+    : [
+        ...diagram.nodes.filter(n => !hierarchy.owners.has(n.id)).map(n => n.id),
+        ...diagram.subgraphs.filter(sg => !sg.parent).map(sg => sg.id),
+      ];
+
+  if (items.length === 0) {
+    return { width: 0, height: 0, nodes: new Map(), subgraphs: [], bends: new Map() };
   }
 
-  for (const edge of edges) {
-    const source = adjacency.get(edge.source);
-    const target = adjacency.get(edge.target);
-
-    if (source) source.outgoing.push(edge.target);
-    if (target) target.incoming.push(edge.source);
+  // Nested subgraphs become blocks with their own size
+  const blocks = new Map<string, ClusterBlock>();
+  const sizes = new Map<string, { width: number; height: number }>();
+  for (const id of items) {
+    const child = hierarchy.subgraphs.get(id);
+    if (child && !nodeIds.has(id)) {
+      const block = layoutSubgraphBlock(child, child.direction ?? direction, diagram, hierarchy, settings);
+      blocks.set(id, block);
+      sizes.set(id, block);
+    } else {
+      const node = nodesById.get(id);
+      sizes.set(id, node ? calculateNodeSize(node) : { width: DEFAULT_NODE_WIDTH, height: DEFAULT_NODE_HEIGHT });
+    }
   }
 
-  return adjacency;
-}
-
-function calculateDepths(
-  nodes: ParsedNode[],
-  adjacency: Map<string, { incoming: string[]; outgoing: string[] }>
-): Map<string, number> {
-  const depths = new Map<string, number>();
-
-  // Find root nodes (no incoming edges)
-  const roots = nodes.filter(n => {
-    const adj = adjacency.get(n.id);
-    return !adj || adj.incoming.length === 0;
+  // Edges between items of this cluster (edges into nested subgraphs count for the subgraph)
+  const clusterEdges: LayeredEdge[] = [];
+  const edgeIndices: number[] = [];
+  diagram.edges.forEach((edge, index) => {
+    const source = itemInCluster(edge.source, clusterId, hierarchy);
+    const target = itemInCluster(edge.target, clusterId, hierarchy);
+    if (source && target && source !== target) {
+      clusterEdges.push({ source, target, minLength: edge.minLength });
+      edgeIndices.push(index);
+    }
   });
 
-  // BFS to assign depths
-  const queue = roots.map(r => ({ id: r.id, depth: 0 }));
-  const visited = new Set<string>();
+  const placement = placeItems(
+    settings.engine,
+    items.map(id => ({ id, ...sizes.get(id)! })),
+    clusterEdges,
+    {
+      direction,
+      nodeGap: settings.spacing.nodeGap ?? crossGap(direction),
+      rankGap: settings.spacing.rankGap ?? rankGap(direction),
+    }
+  );
 
-  while (queue.length > 0) {
-    const { id, depth } = queue.shift()!;
+  const nodes = new Map<string, LayoutNode>();
+  const subgraphs: LayoutSubgraph[] = [];
+  const bends = new Map<number, Array<{ x: number; y: number }>>();
+  placement.bends.forEach((points, i) => {
+    if (points.length > 0) bends.set(edgeIndices[i], points);
+  });
 
-    if (visited.has(id)) {
-      // Update depth if we found a longer path
-      const currentDepth = depths.get(id) ?? 0;
-      if (depth > currentDepth) {
-        depths.set(id, depth);
-      }
+  for (const id of items) {
+    const pos = placement.positions.get(id)!;
+    const block = blocks.get(id);
+    if (!block) {
+      nodes.set(id, { id, x: pos.x, y: pos.y, ...sizes.get(id)! });
       continue;
     }
-
-    visited.add(id);
-    depths.set(id, depth);
-
-    const adj = adjacency.get(id);
-    if (adj) {
-      for (const targetId of adj.outgoing) {
-        queue.push({ id: targetId, depth: depth + 1 });
-      }
+    for (const node of block.nodes.values()) {
+      nodes.set(node.id, { ...node, x: node.x + pos.x, y: node.y + pos.y });
     }
-  }
-
-  // Handle disconnected nodes
-  for (const node of nodes) {
-    if (!depths.has(node.id)) {
-      depths.set(node.id, 0);
+    for (const sg of block.subgraphs) {
+      subgraphs.push({ ...sg, x: sg.x + pos.x, y: sg.y + pos.y });
+    }
+    for (const [index, points] of block.bends) {
+      bends.set(index, points.map(p => ({ x: p.x + pos.x, y: p.y + pos.y })));
     }
   }
 
-  return depths;
+  return { width: placement.width, height: placement.height, nodes, subgraphs, bends };
 }
 
-function groupByDepth(nodes: ParsedNode[], depths: Map<string, number>): ParsedNode[][] {
-  const maxDepth = Math.max(...depths.values());
-  const groups: ParsedNode[][] = Array.from({ length: maxDepth + 1 }, () => []);
-
-  for (const node of nodes) {
-    const depth = depths.get(node.id) ?? 0;
-    groups[depth].push(node);
-  }
+/**
+ * Gap between neighbours within a rank, and between ranks, for a flow direction
+ */
+function crossGap(direction: ParsedDiagram['direction']): number {
+  return direction === 'LR' || direction === 'RL' ? VERTICAL_GAP : HORIZONTAL_GAP;
+}
 
-  return groups;
+function rankGap(direction: ParsedDiagram['direction']): number {
+  return direction === 'LR' || direction === 'RL' ? HORIZONTAL_GAP : VERTICAL_GAP;
 }
 
-function layoutSubgraph(
+/**
+ * Lay out a subgraph's contents and wrap them in its box, with room for the label.
+ * The subgraph's own box is listed before its nested subgraphs.
+ */
+function layoutSubgraphBlock(
   sg: ParsedSubgraph,
-  nodePositions: Map<string, LayoutNode>
-): LayoutSubgraph {
-  const nodeLayouts = sg.nodes
-    .map(id => nodePositions.get(id))
-    .filter((n): n is LayoutNode => n !== undefined);
-
-  if (nodeLayouts.length === 0) {
-    return {
-      id: sg.id,
-      x: 0,
-      y: 0,
-      width: DEFAULT_NODE_WIDTH + SUBGRAPH_PADDING * 2,
-      height: DEFAULT_NODE_HEIGHT + SUBGRAPH_PADDING * 2 + LABEL_HEIGHT,
-      label: sg.label,
-    };
+  direction: ParsedDiagram['direction'],
+  diagram: ParsedDiagram,
+  hierarchy: ClusterHierarchy,
+  settings: PlacementSettings
+): ClusterBlock {
+  const content = layoutCluster(sg.id, direction, diagram, hierarchy, settings);
+  const padding = settings.spacing.subgraphPadding ?? SUBGRAPH_PADDING;
+  const contentWidth = content.nodes.size > 0 || content.subgraphs.length > 0 ? content.width : DEFAULT_NODE_WIDTH;
+  const contentHeight = content.nodes.size > 0 || content.subgraphs.length > 0 ? content.height : DEFAULT_NODE_HEIGHT;
+
+  // Wide enough for its label, with the content centered below it
+  const label = measureText(sg.label, { fontSize: SUBGRAPH_LABEL_FONT_SIZE });
+  const labelHeight = Math.ceil(label.height) + SUBGRAPH_LABEL_GAP;
+  const width = Math.max(contentWidth + padding * 2, Math.ceil(label.width) + padding);
+  const offsetX = (width - contentWidth) / 2;
+  const offsetY = padding + labelHeight;
+  const height = contentHeight + padding * 2 + labelHeight;
+
+  const nodes = new Map<string, LayoutNode>();
+  for (const node of content.nodes.values()) {
+    nodes.set(node.id, { ...node, x: node.x + offsetX, y: node.y + offsetY });
   }
 
-  const minX = Math.min(...nodeLayouts.map(n => n.x));
-  const minY = Math.min(...nodeLayouts.map(n => n.y));
-  const maxX = Math.max(...nodeLayouts.map(n => n.x + n.width));
-  const maxY = Math.max(...nodeLayouts.map(n => n.y + n.height));
+  const bends = new Map<number, Array<{ x: number; y: number }>>();
+  for (const [index, points] of content.bends) {
+    bends.set(index, points.map(p => ({ x: p.x + offsetX, y: p.y + offsetY })));
+  }
 
   return {
-    id: sg.id,
-    x: minX - SUBGRAPH_PADDING,
-    y: minY - SUBGRAPH_PADDING - LABEL_HEIGHT,
-    width: maxX - minX + SUBGRAPH_PADDING * 2,
-    height: maxY - minY + SUBGRAPH_PADDING * 2 + LABEL_HEIGHT,
-    label: sg.label,
+    width,
+    height,
+    nodes,
+    bends,
+    subgraphs: [
+      { id: sg.id, x: 0, y: 0, width, height, label: sg.label },
+      ...content.subgraphs.map(child => ({ ...child, x: child.x + offsetX, y: child.y + offsetY })),
+    ],
   };
 }
 
+/**
+ * The subgraph directly containing a node or subgraph (undefined = top level)
+ */
+function parentCluster(id: string, hierarchy: ClusterHierarchy): string | undefined {
+  return hierarchy.owners.get(id) ?? hierarchy.subgraphs.get(id)?.parent;
+}
+
+/**
+ * The item of `clusterId` that contains `id` (the node itself or an enclosing subgraph)
+ */
+function itemInCluster(id: string, clusterId: string | undefined, hierarchy: ClusterHierarchy): string | undefined {
+  for (let item: string | undefined = id; item !== undefined; item = parentCluster(item, hierarchy)) {
+    if (parentCluster(item, hierarchy) === clusterId) return item;
+  }
+  return undefined;
+}
+
+/**
+ * The innermost subgraph containing both endpoints of an edge
+ */
+function commonCluster(source: string, target: string, hierarchy: ClusterHierarchy): string | undefined {
+  const sourceAncestors: Array<string | undefined> = [];
+  for (let cluster = parentCluster(source, hierarchy); cluster !== undefined; cluster = parentCluster(cluster, hierarchy)) {
+    sourceAncestors.push(cluster);
+  }
+  for (let cluster = parentCluster(target, hierarchy); cluster !== undefined; cluster = parentCluster(cluster, hierarchy)) {
+    if (sourceAncestors.includes(cluster)) return cluster;
+  }
+  return undefined;
+}
+
+/**
+ * Effective direction of a cluster: its own `direction`, else the nearest ancestor's
+ */
+function clusterDirection(
+  clusterId: string | undefined,
+  fallback: ParsedDiagram['direction'],
+  hierarchy: ClusterHierarchy
+): ParsedDiagram['direction'] {
+  for (let cluster = clusterId; cluster !== undefined; cluster = hierarchy.subgraphs.get(cluster)?.parent) {
+    const direction = hierarchy.subgraphs.get(cluster)?.direction;
+    if (direction) return direction;
+  }
+  return fallback;
+}
+
 function layoutEdge(
   edge: ParsedEdge,
   nodePositions: Map<string, LayoutNode>,
-  isHorizontal: boolean
+  isHorizontal: boolean,
+  bends: Array<{ x: number; y: number }> = []
 ): LayoutEdge {
   const source = nodePositions.get(edge.source);
   const target = nodePositions.get(edge.target);
@@ -476,8 +1052,7 @@ function layoutEdge(
       source: edge.source,
       target: edge.target,
       points: [],
-      label: edge.label,
-      lineStyle: edge.lineStyle,
+      ...edgeStyle(edge),
     };
   }
 
@@ -517,26 +1092,23 @@ function layoutEdge(
     target: edge.target,
     points: [
       { x: startX, y: startY },
+      ...bends,
       { x: endX, y: endY },
     ],
-    label: edge.label,
-    lineStyle: edge.lineStyle,
+    ...edgeStyle(edge),
   };
 }
 
 /**
- * Estimate text width based on character count
- * Rough approximation: average char width at font size 16 is ~9px
+ * Estimate text width from per-character font metrics
  */
 export function estimateTextWidth(text: string, fontSize: number = 16): number {
-  const avgCharWidth = fontSize * 0.55;
-  return text.length * avgCharWidth;
+  return measureText(text, { fontSize }).width;
 }
 
 /**
  * Estimate text height based on line count
  */
 export function estimateTextHeight(text: string, fontSize: number = 16, lineHeight: number = 1.25): number {
-  const lines = text.split('\n').length;
-  return lines * fontSize * lineHeight;
+  return measureText(text, { fontSize, lineHeight }).height;
 }
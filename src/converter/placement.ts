@@ -0,0 +1,500 @@
+import type { LayoutEngine } from '../types/index.js';
+import {
+  layeredLayout,
+  type LayeredItem,
+  type LayeredEdge,
+  type LayeredOptions,
+  type LayeredResult,
+} from './layered.js';
+
+/**
+ * Placement engines behind the `layout:` directive. They all take the same items
+ * and edges as `layeredLayout` and return top-left positions in the same shape,
+ * so clusters, subgraphs and routing work unchanged whichever engine runs.
+ * Only the layered engine produces bend points; the others route from scratch.
+ */
+
+type Center = { x: number; y: number };
+
+// Force-directed simulation steps; the temperature cools linearly to zero
+const FORCE_ITERATIONS = 300;
+// Pull toward the middle, relative to edge attraction, keeping a component compact
+const GRAVITY = 0.5;
+// How far repulsion reaches between outlines, in ideal edge lengths; farther pairs are ignored
+const REPULSION_RANGE = 4;
+// Passes per item allowed for pushing apart boxes that still overlap once the simulation settles
+const OVERLAP_PASSES_PER_ITEM = 10;
+// Overlap in pixels left alone, below what rounding positions to whole pixels can show
+const OVERLAP_TOLERANCE = 0.5;
+
+export function placeItems(
+  engine: LayoutEngine,
+  items: LayeredItem[],
+  edges: LayeredEdge[],
+  options: LayeredOptions
+): LayeredResult {
+  switch (engine) {
+    case 'force':
+      return forceLayout(items, edges, options);
+    case 'grid':
+      return gridLayout(items, edges, options);
+    case 'radial':
+      return radialLayout(items, edges, options);
+    case 'circular':
+      return circularLayout(items, edges, options);
+    default:
+      return layeredLayout(items, edges, options);
+  }
+}
+
+/**
+ * Aligned rows and columns in input order, filled along the flow direction.
+ * Column widths and row heights follow their largest item.
+ */
+function gridLayout(items: LayeredItem[], edges: LayeredEdge[], options: LayeredOptions): LayeredResult {
+  const across = Math.ceil(Math.sqrt(items.length));
+  const horizontal = options.direction === 'LR' || options.direction === 'RL';
+  const cell = (index: number) => horizontal
+    ? { col: Math.floor(index / across), row: index % across }
+    : { col: index % across, row: Math.floor(index / across) };
+
+  const colWidths: number[] = [];
+  const rowHeights: number[] = [];
+  items.forEach((item, index) => {
+    const { col, row } = cell(index);
+    colWidths[col] = Math.max(colWidths[col] ?? 0, item.width);
+    rowHeights[row] = Math.max(rowHeights[row] ?? 0, item.height);
+  });
+
+  const colX = offsets(colWidths, options.nodeGap);
+  const rowY = offsets(rowHeights, options.rankGap);
+  const centers = new Map<string, Center>();
+  items.forEach((item, index) => {
+    const { col, row } = cell(index);
+    centers.set(item.id, { x: colX[col] + colWidths[col] / 2, y: rowY[row] + rowHeights[row] / 2 });
+  });
+
+  return fromCenters(items, centers, edges.length);
+}
+
+function offsets(sizes: number[], gap: number): number[] {
+  const result: number[] = [];
+  let position = 0;
+  for (const size of sizes) {
+    result.push(position);
+    position += size + gap;
+  }
+  return result;
+}
+
+/**
+ * Fruchterman-Reingold: nearby pairs repel, edges pull their ends together and
+ * gravity holds the drawing together. Each connected component is simulated on
+ * its own, starting from a circle in input order so the result is deterministic,
+ * and the components are then packed side by side.
+ */
+function forceLayout(items: LayeredItem[], edges: LayeredEdge[], options: LayeredOptions): LayeredResult {
+  const index = new Map(items.map((item, i) => [item.id, i]));
+  const links = edges
+    .map(edge => [index.get(edge.source), index.get(edge.target)])
+    .filter((link): link is [number, number] => link[0] !== undefined && link[1] !== undefined && link[0] !== link[1]);
+
+  // Items are treated as discs reaching their corners, so tall entities keep their distance
+  const sizes = items.map(item => Math.hypot(item.width, item.height) / 2);
+  const ideal = (sizes.reduce((sum, size) => sum + size, 0) / Math.max(1, items.length)) * 2 + options.nodeGap;
+
+  const centers = new Map<string, Center>();
+  const groups = connectedComponents(items.length, links).map(members => {
+    const local = new Map(members.map((item, i) => [item, i]));
+    const componentLinks = links
+      .filter(([a]) => local.has(a))
+      .map(([a, b]): [number, number] => [local.get(a)!, local.get(b)!]);
+    const positions = simulateForces(members.map(i => sizes[i]), componentLinks, ideal, options.nodeGap);
+
+    const group = members.map(i => items[i]);
+    members.forEach((item, i) => centers.set(items[item].id, positions[i]));
+    removeOverlaps(group, centers, options.nodeGap);
+    return group;
+  });
+
+  packComponents(groups, centers, options.nodeGap);
+  return fromCenters(items, centers, edges.length);
+}
+
+function simulateForces(sizes: number[], links: Array<[number, number]>, ideal: number, gap: number): Center[] {
+  const count = sizes.length;
+  const radius = (ideal * count) / (2 * Math.PI);
+  const reach = ideal * REPULSION_RANGE;
+  const cellSize = reach + 2 * sizes.reduce((max, size) => Math.max(max, size), 0);
+  const xs = new Float64Array(count);
+  const ys = new Float64Array(count);
+  for (let i = 0; i < count; i++) {
+    const angle = (2 * Math.PI * i) / count;
+    xs[i] = radius * Math.cos(angle);
+    ys[i] = radius * Math.sin(angle);
+  }
+
+  const dx = new Float64Array(count);
+  const dy = new Float64Array(count);
+  for (let step = 0; step < FORCE_ITERATIONS; step++) {
+    const temperature = ideal * (1 - step / FORCE_ITERATIONS);
+    dx.fill(0);
+    dy.fill(0);
+
+    forNearbyPairs(xs, ys, cellSize, (i, j) => {
+      let x = xs[i] - xs[j];
+      let y = ys[i] - ys[j];
+      let distance = Math.hypot(x, y);
+      if (distance - sizes[i] - sizes[j] > reach) return;
+      if (distance < 0.01) {
+        // Coincident items separate along a fixed direction
+        x = 0.01 * (i - j);
+        y = 0.01;
+        distance = Math.hypot(x, y);
+      }
+      // Distance between outlines rather than centers, so large boxes keep clear
+      const clearance = Math.max(1, distance - sizes[i] - sizes[j] + ideal / 2);
+      const force = (ideal * ideal) / clearance / distance;
+      dx[i] += x * force;
+      dy[i] += y * force;
+      dx[j] -= x * force;
+      dy[j] -= y * force;
+    });
+
+    // Each edge wants its ends one gap apart, measured between outlines
+    for (const [a, b] of links) {
+      const x = xs[a] - xs[b];
+      const y = ys[a] - ys[b];
+      const force = Math.hypot(x, y) / (sizes[a] + sizes[b] + gap);
+      dx[a] -= x * force;
+      dy[a] -= y * force;
+      dx[b] += x * force;
+      dy[b] += y * force;
+    }
+
+    let cx = 0;
+    let cy = 0;
+    for (let i = 0; i < count; i++) {
+      cx += xs[i] / count;
+      cy += ys[i] / count;
+    }
+    for (let i = 0; i < count; i++) {
+      const force = (Math.hypot(xs[i] - cx, ys[i] - cy) / ideal) * GRAVITY;
+      dx[i] -= (xs[i] - cx) * force;
+      dy[i] -= (ys[i] - cy) * force;
+    }
+
+    for (let i = 0; i < count; i++) {
+      const length = Math.hypot(dx[i], dy[i]);
+      if (length > 0) {
+        const move = Math.min(length, temperature);
+        xs[i] += (dx[i] / length) * move;
+        ys[i] += (dy[i] / length) * move;
+      }
+    }
+  }
+
+  return Array.from({ length: count }, (_, i) => ({ x: xs[i], y: ys[i] }));
+}
+
+/**
+ * Item indices of each connected component, in order of their first item
+ */
+function connectedComponents(count: number, links: Array<[number, number]>): number[][] {
+  const parent = Array.from({ length: count }, (_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  for (const [a, b] of links) {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) parent[Math.max(rootA, rootB)] = Math.min(rootA, rootB);
+  }
+
+  const components = new Map<number, number[]>();
+  for (let i = 0; i < count; i++) {
+    const root = find(i);
+    (components.get(root) ?? components.set(root, []).get(root)!).push(i);
+  }
+  return [...components.values()];
+}
+
+/**
+ * Shelf-pack component bounding boxes, tallest first, into rows about as wide
+ * as a square holding them all
+ */
+function packComponents(groups: LayeredItem[][], centers: Map<string, Center>, gap: number): void {
+  const boxes = groups.map(group => {
+    let left = Infinity;
+    let top = Infinity;
+    let right = -Infinity;
+    let bottom = -Infinity;
+    for (const item of group) {
+      const center = centers.get(item.id)!;
+      left = Math.min(left, center.x - item.width / 2);
+      top = Math.min(top, center.y - item.height / 2);
+      right = Math.max(right, center.x + item.width / 2);
+      bottom = Math.max(bottom, center.y + item.height / 2);
+    }
+    return { group, left, top, width: right - left, height: bottom - top };
+  });
+
+  const area = boxes.reduce((sum, box) => sum + (box.width + gap) * (box.height + gap), 0);
+  const rowWidth = boxes.reduce((max, box) => Math.max(max, box.width), Math.sqrt(area));
+
+  let x = 0;
+  let y = 0;
+  let rowHeight = 0;
+  for (const box of [...boxes].sort((a, b) => b.height - a.height)) {
+    if (x > 0 && x + box.width > rowWidth) {
+      x = 0;
+      y += rowHeight + gap;
+      rowHeight = 0;
+    }
+    for (const item of box.group) {
+      const center = centers.get(item.id)!;
+      center.x += x - box.left;
+      center.y += y - box.top;
+    }
+    x += box.width + gap;
+    rowHeight = Math.max(rowHeight, box.height);
+  }
+}
+
+/**
+ * Radial tree: roots in the middle, each generation on the next ring, and every
+ * subtree in an angular wedge sized by its number of leaves
+ */
+function radialLayout(items: LayeredItem[], edges: LayeredEdge[], options: LayeredOptions): LayeredResult {
+  const { children, roots } = spanningTree(items, edges);
+  const byId = new Map(items.map(item => [item.id, item]));
+
+  const leaves = new Map<string, number>();
+  const countLeaves = (id: string): number => {
+    const kids = children.get(id) ?? [];
+    const total = kids.length === 0 ? 1 : kids.reduce((sum, kid) => sum + countLeaves(kid), 0);
+    leaves.set(id, total);
+    return total;
+  };
+  roots.forEach(countLeaves);
+
+  // Generations, with a single root sitting at the center
+  const depth = new Map<string, number>();
+  const generations: string[][] = [];
+  const start = roots.length === 1 ? 0 : 1;
+  const queue = roots.map(id => ({ id, level: start }));
+  for (let head = 0; head < queue.length; head++) {
+    const { id, level } = queue[head];
+    depth.set(id, level);
+    (generations[level] ??= []).push(id);
+    for (const kid of children.get(id) ?? []) queue.push({ id: kid, level: level + 1 });
+  }
+
+  // Ring radii: clear of the previous ring, and long enough for every item on it
+  const extent = (id: string) => Math.hypot(byId.get(id)!.width, byId.get(id)!.height) / 2;
+  const radii: number[] = [0];
+  let previousExtent = roots.length === 1 ? extent(roots[0]) : 0;
+  for (let level = 1; level < generations.length; level++) {
+    const ring = generations[level] ?? [];
+    const ringExtent = ring.reduce((max, id) => Math.max(max, extent(id)), 0);
+    const circumference = ring.reduce((sum, id) => sum + extent(id) * 2 + options.nodeGap, 0);
+    radii[level] = Math.max(
+      radii[level - 1] + previousExtent + options.rankGap + ringExtent,
+      circumference / (2 * Math.PI)
+    );
+    previousExtent = ringExtent;
+  }
+
+  const centers = new Map<string, Center>();
+  const place = (id: string, from: number, to: number) => {
+    const angle = (from + to) / 2 - Math.PI / 2;
+    const radius = radii[depth.get(id)!];
+    centers.set(id, { x: radius * Math.cos(angle), y: radius * Math.sin(angle) });
+    let cursor = from;
+    for (const kid of children.get(id) ?? []) {
+      const share = ((to - from) * leaves.get(kid)!) / leaves.get(id)!;
+      place(kid, cursor, cursor + share);
+      cursor += share;
+    }
+  };
+  const total = roots.reduce((sum, id) => sum + leaves.get(id)!, 0);
+  let cursor = 0;
+  for (const root of roots) {
+    const share = (2 * Math.PI * leaves.get(root)!) / total;
+    place(root, cursor, cursor + share);
+    cursor += share;
+  }
+
+  removeOverlaps(items, centers, options.nodeGap);
+  return fromCenters(items, centers, edges.length);
+}
+
+/**
+ * All items on one circle, in depth-first order of the graph so connected items
+ * sit next to each other. Arc lengths follow item sizes.
+ */
+function circularLayout(items: LayeredItem[], edges: LayeredEdge[], options: LayeredOptions): LayeredResult {
+  const { children, roots } = spanningTree(items, edges);
+  const order: string[] = [];
+  const visit = (id: string) => {
+    order.push(id);
+    (children.get(id) ?? []).forEach(visit);
+  };
+  roots.forEach(visit);
+
+  const byId = new Map(items.map(item => [item.id, item]));
+  const arcs = order.map(id => Math.hypot(byId.get(id)!.width, byId.get(id)!.height) + options.nodeGap);
+  const circumference = arcs.reduce((sum, arc) => sum + arc, 0);
+  const radius = order.length > 1 ? circumference / (2 * Math.PI) : 0;
+
+  const centers = new Map<string, Center>();
+  let travelled = 0;
+  order.forEach((id, i) => {
+    const angle = ((travelled + arcs[i] / 2) / circumference) * 2 * Math.PI - Math.PI / 2;
+    centers.set(id, { x: radius * Math.cos(angle), y: radius * Math.sin(angle) });
+    travelled += arcs[i];
+  });
+
+  return fromCenters(items, centers, edges.length);
+}
+
+/**
+ * Breadth-first spanning forest. Roots are items without incoming edges, in
+ * input order, plus the first unreached item of every cycle-only component.
+ */
+function spanningTree(
+  items: LayeredItem[],
+  edges: LayeredEdge[]
+): { children: Map<string, string[]>; roots: string[] } {
+  const ids = new Set(items.map(item => item.id));
+  const successors = new Map<string, string[]>();
+  const neighbours = new Map<string, string[]>();
+  const hasIncoming = new Set<string>();
+  for (const edge of edges) {
+    if (!ids.has(edge.source) || !ids.has(edge.target) || edge.source === edge.target) continue;
+    (successors.get(edge.source) ?? successors.set(edge.source, []).get(edge.source)!).push(edge.target);
+    (neighbours.get(edge.target) ?? neighbours.set(edge.target, []).get(edge.target)!).push(edge.source);
+    hasIncoming.add(edge.target);
+  }
+
+  const children = new Map<string, string[]>();
+  const roots: string[] = [];
+  const reached = new Set<string>();
+  const grow = (root: string) => {
+    roots.push(root);
+    reached.add(root);
+    const queue = [root];
+    for (let head = 0; head < queue.length; head++) {
+      const id = queue[head];
+      // Follow edges forwards first, then backwards to pull in the rest of the component
+      for (const next of [...(successors.get(id) ?? []), ...(neighbours.get(id) ?? [])]) {
+        if (reached.has(next)) continue;
+        reached.add(next);
+        (children.get(id) ?? children.set(id, []).get(id)!).push(next);
+        queue.push(next);
+      }
+    }
+  };
+
+  for (const item of items) {
+    if (!hasIncoming.has(item.id) && !reached.has(item.id)) grow(item.id);
+  }
+  for (const item of items) {
+    if (!reached.has(item.id)) grow(item.id);
+  }
+
+  return { children, roots };
+}
+
+/**
+ * Push overlapping boxes apart along the axis where they overlap least
+ */
+function removeOverlaps(items: LayeredItem[], centers: Map<string, Center>, gap: number): void {
+  const points = items.map(item => centers.get(item.id)!);
+  const cellSize = items.reduce((max, item) => Math.max(max, item.width, item.height), 0) + gap;
+
+  for (let pass = 0; pass < items.length * OVERLAP_PASSES_PER_ITEM; pass++) {
+    let moved = false;
+    forNearbyPairs(points.map(point => point.x), points.map(point => point.y), cellSize, (i, j) => {
+      const a = points[i];
+      const b = points[j];
+      const overlapX = (items[i].width + items[j].width) / 2 + gap - Math.abs(a.x - b.x);
+      const overlapY = (items[i].height + items[j].height) / 2 + gap - Math.abs(a.y - b.y);
+      if (overlapX <= OVERLAP_TOLERANCE || overlapY <= OVERLAP_TOLERANCE) return;
+
+      moved = true;
+      if (overlapX < overlapY) {
+        const shift = (overlapX / 2) * (a.x < b.x || (a.x === b.x && i < j) ? -1 : 1);
+        a.x += shift;
+        b.x -= shift;
+      } else {
+        const shift = (overlapY / 2) * (a.y < b.y || (a.y === b.y && i < j) ? -1 : 1);
+        a.y += shift;
+        b.y -= shift;
+      }
+    });
+    if (!moved) return;
+  }
+}
+
+/**
+ * Calls `visit(i, j)` with i < j for every pair of points in the same or adjacent
+ * cells of a square grid, which covers all pairs closer than `cellSize` on both axes
+ */
+function forNearbyPairs(
+  xs: ArrayLike<number>,
+  ys: ArrayLike<number>,
+  cellSize: number,
+  visit: (i: number, j: number) => void
+): void {
+  const size = cellSize > 0 ? cellSize : 1;
+  const rows = Array.from(ys, y => Math.floor(y / size));
+  const minRow = rows.reduce((min, row) => Math.min(min, row), Infinity);
+  // Spare rows above and below, so stepping to a neighbouring row never wraps into another column
+  const height = rows.reduce((max, row) => Math.max(max, row), -Infinity) - minRow + 3;
+
+  const cells = new Map<number, number[]>();
+  for (let i = 0; i < xs.length; i++) {
+    const cell = Math.floor(xs[i] / size) * height + rows[i] - minRow + 1;
+    (cells.get(cell) ?? cells.set(cell, []).get(cell)!).push(i);
+  }
+
+  // Pairs within a cell, then with the neighbours ahead of it so each pair comes up once
+  const ahead = [1, height - 1, height, height + 1];
+  for (const [cell, members] of cells) {
+    for (let a = 0; a < members.length; a++) {
+      for (let b = a + 1; b < members.length; b++) visit(members[a], members[b]);
+    }
+    for (const offset of ahead) {
+      for (const j of cells.get(cell + offset) ?? []) {
+        for (const i of members) visit(Math.min(i, j), Math.max(i, j));
+      }
+    }
+  }
+}
+
+/**
+ * Top-left positions shifted so the bounding box starts at the origin
+ */
+function fromCenters(items: LayeredItem[], centers: Map<string, Center>, edgeCount: number): LayeredResult {
+  const minX = items.reduce((min, item) => Math.min(min, centers.get(item.id)!.x - item.width / 2), Infinity);
+  const minY = items.reduce((min, item) => Math.min(min, centers.get(item.id)!.y - item.height / 2), Infinity);
+
+  const positions = new Map<string, { x: number; y: number }>();
+  let width = 0;
+  let height = 0;
+  for (const item of items) {
+    const center = centers.get(item.id)!;
+    const x = Math.round(center.x - item.width / 2 - minX);
+    const y = Math.round(center.y - item.height / 2 - minY);
+    positions.set(item.id, { x, y });
+    width = Math.max(width, x + item.width);
+    height = Math.max(height, y + item.height);
+  }
+
+  return { positions, bends: Array.from({ length: edgeCount }, () => []), width, height };
+}
@@ -0,0 +1,500 @@
+/**
+ * Orthogonal edge routing around nodes and subgraph boxes.
+ *
+ * Each edge leaves its source and enters its target perpendicular to a side.
+ * Ports are spread along a side when several edges share it, ordered by where
+ * the other end lies so they don't cross right at the node. Paths are found
+ * with A* over a sparse grid built from the obstacle borders, penalizing bends.
+ */
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface RouteBox {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface RouteEdge {
+  source: string;
+  target: string;
+  horizontal: boolean; // Flow direction between the two ends (LR/RL)
+}
+
+export interface RoutingOptions {
+  obstacles: RouteBox[]; // Nodes and subgraph boxes
+  spread: ReadonlySet<string>; // Boxes with straight sides that can take several ports
+}
+
+type Side = 'top' | 'right' | 'bottom' | 'left';
+type Direction = 0 | 1 | 2 | 3; // right, down, left, up
+
+// Clearance kept between paths and obstacles
+const MARGIN = 16;
+// Cost of a bend, in pixels of extra length
+const BEND_PENALTY = 60;
+// Above this many obstacles, edges only search a window around their ends
+const MAX_ROUTED_OBSTACLES = 200;
+// How far around its two ends an edge first looks for a route; doubled while widening
+const SEARCH_WINDOW = 200;
+// States an edge may expand over all its searches before settling for its last route, or an elbow
+const SEARCH_BUDGET = 20000;
+// Size of the loop drawn for self-edges
+const SELF_LOOP_SIZE = 30;
+
+const SIDE_NORMALS: Record<Side, Direction> = { right: 0, bottom: 1, left: 2, top: 3 };
+const DIRECTION_STEPS: Array<[number, number]> = [[1, 0], [0, 1], [-1, 0], [0, -1]];
+
+/**
+ * Route every edge; returns one point list per edge, from source border to target border
+ */
+export function routeEdges(
+  edges: RouteEdge[],
+  boxes: Map<string, RouteBox>,
+  options: RoutingOptions
+): Point[][] {
+  const sides = edges.map(edge => {
+    const source = boxes.get(edge.source);
+    const target = boxes.get(edge.target);
+    if (!source || !target || edge.source === edge.target || overlaps(source, target)) {
+      return undefined;
+    }
+    return chooseSides(source, target, edge.horizontal);
+  });
+
+  const ports = assignPorts(edges, sides, boxes, options.spread);
+  const bounded = options.obstacles.length > MAX_ROUTED_OBSTACLES;
+
+  return edges.map((edge, i) => {
+    const source = boxes.get(edge.source);
+    const target = boxes.get(edge.target);
+    if (!source || !target) return [];
+    if (edge.source === edge.target) return selfLoop(source);
+
+    const edgeSides = sides[i];
+    if (!edgeSides) return [center(source), center(target)];
+
+    const [start, end] = ports[i];
+    const [sourceSide, targetSide] = edgeSides;
+    const obstacles = options.obstacles.filter(box =>
+      box.id !== edge.source && box.id !== edge.target && !contains(box, source) && !contains(box, target));
+
+    // Search near the two ends first and widen the search while the route hits an obstacle
+    // further out: straight to every obstacle in small diagrams, in doubling windows of at
+    // most MAX_ROUTED_OBSTACLES in large ones
+    let path: Point[] | undefined;
+    let reach = SEARCH_WINDOW;
+    let nearby = obstaclesWithin(obstacles, source, target, reach);
+    const budget = { remaining: SEARCH_BUDGET };
+    for (;;) {
+      const route = findRoute(start, sourceSide, end, targetSide, nearby, budget);
+      if (budget.remaining < 0) break;
+      path = route ?? path;
+      if ((route && !obstacles.some(box => crosses(route, box))) || nearby.length === obstacles.length) break;
+      if (!bounded) {
+        nearby = obstacles;
+        continue;
+      }
+      let wider = nearby;
+      while (wider.length === nearby.length) {
+        reach *= 2;
+        wider = obstaclesWithin(obstacles, source, target, reach);
+      }
+      if (wider.length > MAX_ROUTED_OBSTACLES) break;
+      nearby = wider;
+    }
+    return simplify(path ?? elbowPath(start, sourceSide, end, targetSide));
+  });
+}
+
+/**
+ * Leave the source on the side facing the target along the flow, or across it
+ * when the two overlap along the flow
+ */
+function chooseSides(source: RouteBox, target: RouteBox, horizontal: boolean): [Side, Side] {
+  const alongFlow = (): [Side, Side] | undefined => horizontal
+    ? target.x >= source.x + source.width ? ['right', 'left']
+      : target.x + target.width <= source.x ? ['left', 'right'] : undefined
+    : target.y >= source.y + source.height ? ['bottom', 'top']
+      : target.y + target.height <= source.y ? ['top', 'bottom'] : undefined;
+
+  const acrossFlow = (): [Side, Side] => horizontal
+    ? center(target).y >= center(source).y ? ['bottom', 'top'] : ['top', 'bottom']
+    : center(target).x >= center(source).x ? ['right', 'left'] : ['left', 'right'];
+
+  return alongFlow() ?? acrossFlow();
+}
+
+/**
+ * Port positions for both ends of every edge. Edges sharing a side are spaced
+ * evenly along it, in the order of their other ends.
+ */
+function assignPorts(
+  edges: RouteEdge[],
+  sides: Array<[Side, Side] | undefined>,
+  boxes: Map<string, RouteBox>,
+  spread: ReadonlySet<string>
+): Array<[Point, Point]> {
+  const ports: Array<[Point, Point]> = edges.map(() => [{ x: 0, y: 0 }, { x: 0, y: 0 }]);
+  const slots = new Map<string, Array<{ edge: number; end: 0 | 1; order: number }>>();
+
+  edges.forEach((edge, i) => {
+    const edgeSides = sides[i];
+    if (!edgeSides) return;
+    const ends = [edge.source, edge.target];
+    for (const end of [0, 1] as const) {
+      const side = edgeSides[end];
+      const other = center(boxes.get(ends[1 - end])!);
+      const key = `${ends[end]}\u0000${side}`;
+      const list = slots.get(key) ?? [];
+      list.push({ edge: i, end, order: side === 'top' || side === 'bottom' ? other.x : other.y });
+      slots.set(key, list);
+    }
+  });
+
+  for (const [key, list] of slots) {
+    const [id, side] = key.split('\u0000') as [string, Side];
+    const box = boxes.get(id)!;
+    list.sort((a, b) => a.order - b.order);
+    list.forEach((slot, k) => {
+      const fraction = spread.has(id) ? (k + 1) / (list.length + 1) : 0.5;
+      ports[slot.edge][slot.end] = pointOnSide(box, side, fraction);
+    });
+  }
+
+  return ports;
+}
+
+function pointOnSide(box: RouteBox, side: Side, fraction: number): Point {
+  switch (side) {
+    case 'top':
+      return { x: box.x + box.width * fraction, y: box.y };
+    case 'bottom':
+      return { x: box.x + box.width * fraction, y: box.y + box.height };
+    case 'left':
+      return { x: box.x, y: box.y + box.height * fraction };
+    case 'right':
+      return { x: box.x + box.width, y: box.y + box.height * fraction };
+  }
+}
+
+/**
+ * Shortest path with few bends from one port to another, or undefined if the
+ * obstacles leave no way through or the search uses up its budget of states
+ */
+function findRoute(
+  start: Point,
+  startSide: Side,
+  end: Point,
+  endSide: Side,
+  obstacles: RouteBox[],
+  budget: { remaining: number }
+): Point[] | undefined {
+  const startDirection = SIDE_NORMALS[startSide];
+  const endDirection = ((SIDE_NORMALS[endSide] + 2) % 4) as Direction; // Into the target
+  const from = step(start, startDirection, MARGIN);
+  const to = step(end, SIDE_NORMALS[endSide], MARGIN);
+
+  // Obstacles grown by the margin; ones covering a port stub can't be avoided anyway
+  const rects = obstacles
+    .map(box => ({ left: box.x - MARGIN, top: box.y - MARGIN, right: box.x + box.width + MARGIN, bottom: box.y + box.height + MARGIN }))
+    .filter(rect => !insideRect(from, rect) && !insideRect(to, rect));
+
+  const xs = sortedUnique([from.x, to.x, (from.x + to.x) / 2, ...rects.flatMap(r => [r.left, r.right])]);
+  const ys = sortedUnique([from.y, to.y, (from.y + to.y) / 2, ...rects.flatMap(r => [r.top, r.bottom])]);
+  const nx = xs.length;
+  const ny = ys.length;
+  const cell = (i: number, j: number) => i * ny + j;
+  const xIndex = new Map(xs.map((x, i) => [x, i]));
+  const yIndex = new Map(ys.map((y, j) => [y, j]));
+
+  // Blocked grid points and grid segments (to the right / downward from a point)
+  const pointBlocked = new Uint8Array(nx * ny);
+  const rightBlocked = new Uint8Array(nx * ny);
+  const downBlocked = new Uint8Array(nx * ny);
+  for (const rect of rects) {
+    const il = xIndex.get(rect.left)!;
+    const ir = xIndex.get(rect.right)!;
+    const jt = yIndex.get(rect.top)!;
+    const jb = yIndex.get(rect.bottom)!;
+    for (let i = il; i <= ir; i++) {
+      for (let j = jt; j <= jb; j++) {
+        const insideX = i > il && i < ir;
+        const insideY = j > jt && j < jb;
+        if (insideX && insideY) pointBlocked[cell(i, j)] = 1;
+        if (insideY && i < ir) rightBlocked[cell(i, j)] = 1;
+        if (insideX && j < jb) downBlocked[cell(i, j)] = 1;
+      }
+    }
+  }
+
+  const isOpen = (i: number, j: number, direction: Direction): boolean => {
+    switch (direction) {
+      case 0: return i + 1 < nx && !rightBlocked[cell(i, j)];
+      case 1: return j + 1 < ny && !downBlocked[cell(i, j)];
+      case 2: return i > 0 && !rightBlocked[cell(i - 1, j)];
+      case 3: return j > 0 && !downBlocked[cell(i, j - 1)];
+    }
+  };
+
+  const startCell = cell(xIndex.get(from.x)!, yIndex.get(from.y)!);
+  const goalI = xIndex.get(to.x)!;
+  const goalJ = yIndex.get(to.y)!;
+  // Remaining length plus the bend still needed when the goal is off both axes.
+  // Slightly overweighted so that ties go to states closer to the goal.
+  const heuristic = (i: number, j: number) => {
+    const dx = Math.abs(xs[i] - to.x);
+    const dy = Math.abs(ys[j] - to.y);
+    return (dx + dy + (dx > 0 && dy > 0 ? BEND_PENALTY : 0)) * 1.001;
+  };
+
+  // States are (grid point, direction of travel), kept in scratch arrays shared between searches
+  const { costs, parents, stamps, search } = searchScratch(nx * ny * 4);
+  const costOf = (state: number) => stamps[state] === search ? costs[state] : Infinity;
+  const heap: Heap = { states: [], priorities: [] };
+  const startState = startCell * 4 + startDirection;
+  stamps[startState] = search;
+  costs[startState] = 0;
+  parents[startState] = -1;
+  heapPush(heap, startState, heuristic(Math.floor(startCell / ny), startCell % ny));
+
+  let bestGoal = -1;
+  let bestGoalCost = Infinity;
+
+  while (heap.states.length > 0) {
+    const [state, priority] = heapPop(heap);
+    if (priority >= bestGoalCost) break;
+    if (--budget.remaining < 0) return undefined;
+
+    const point = Math.floor(state / 4);
+    const direction = (state % 4) as Direction;
+    const i = Math.floor(point / ny);
+    const j = point % ny;
+    const g = costs[state];
+    if (priority > g + heuristic(i, j)) continue; // Stale heap entry
+
+    if (i === goalI && j === goalJ) {
+      const total = g + (direction === endDirection ? 0 : BEND_PENALTY);
+      if (total < bestGoalCost) {
+        bestGoalCost = total;
+        bestGoal = state;
+      }
+      continue;
+    }
+
+    for (const next of [0, 1, 2, 3] as Direction[]) {
+      if (next === (direction + 2) % 4 || !isOpen(i, j, next)) continue;
+      const [di, dj] = DIRECTION_STEPS[next];
+      const ni = i + di;
+      const nj = j + dj;
+      if (pointBlocked[cell(ni, nj)]) continue;
+
+      const nextState = cell(ni, nj) * 4 + next;
+      const nextCost = g + Math.abs(xs[ni] - xs[i]) + Math.abs(ys[nj] - ys[j]) + (next === direction ? 0 : BEND_PENALTY);
+      if (nextCost < costOf(nextState)) {
+        stamps[nextState] = search;
+        costs[nextState] = nextCost;
+        parents[nextState] = state;
+        heapPush(heap, nextState, nextCost + heuristic(ni, nj));
+      }
+    }
+  }
+
+  if (bestGoal === -1) return undefined;
+
+  const points: Point[] = [end];
+  for (let state = bestGoal; state !== -1; state = parents[state]) {
+    const point = Math.floor(state / 4);
+    points.push({ x: xs[Math.floor(point / ny)], y: ys[point % ny] });
+  }
+  points.push(start);
+  return points.reverse();
+}
+
+interface SearchScratch {
+  costs: Float64Array;
+  parents: Int32Array;
+  stamps: Uint32Array; // Entries only count when stamped with the current search
+  search: number;
+}
+
+let scratch: SearchScratch = { costs: new Float64Array(0), parents: new Int32Array(0), stamps: new Uint32Array(0), search: 0 };
+
+/**
+ * Cost and parent arrays for at least `size` states, reused so that each search
+ * starts without allocating or clearing them
+ */
+function searchScratch(size: number): SearchScratch {
+  if (scratch.stamps.length < size) {
+    const length = Math.max(size, scratch.stamps.length * 2);
+    scratch = { costs: new Float64Array(length), parents: new Int32Array(length), stamps: new Uint32Array(length), search: 0 };
+  }
+  scratch.search++;
+  return scratch;
+}
+
+/**
+ * Plain elbow connector between two ports, ignoring obstacles
+ */
+function elbowPath(start: Point, startSide: Side, end: Point, endSide: Side): Point[] {
+  const startVertical = startSide === 'top' || startSide === 'bottom';
+  const endVertical = endSide === 'top' || endSide === 'bottom';
+
+  if (startVertical && endVertical) {
+    const middle = (start.y + end.y) / 2;
+    return [start, { x: start.x, y: middle }, { x: end.x, y: middle }, end];
+  }
+  if (!startVertical && !endVertical) {
+    const middle = (start.x + end.x) / 2;
+    return [start, { x: middle, y: start.y }, { x: middle, y: end.y }, end];
+  }
+  return startVertical
+    ? [start, { x: start.x, y: end.y }, end]
+    : [start, { x: end.x, y: start.y }, end];
+}
+
+/**
+ * Loop out of the right side and back in at the top
+ */
+function selfLoop(box: RouteBox): Point[] {
+  const right = box.x + box.width;
+  const middleY = box.y + box.height / 2;
+  const middleX = box.x + box.width / 2;
+  return [
+    { x: right, y: middleY },
+    { x: right + SELF_LOOP_SIZE, y: middleY },
+    { x: right + SELF_LOOP_SIZE, y: box.y - SELF_LOOP_SIZE },
+    { x: middleX, y: box.y - SELF_LOOP_SIZE },
+    { x: middleX, y: box.y },
+  ];
+}
+
+/**
+ * Drop repeated points and points in the middle of straight runs
+ */
+function simplify(points: Point[]): Point[] {
+  const result: Point[] = [];
+  for (const point of points) {
+    const last = result[result.length - 1];
+    if (last && last.x === point.x && last.y === point.y) continue;
+    const beforeLast = result[result.length - 2];
+    if (beforeLast && last &&
+        ((beforeLast.x === last.x && last.x === point.x) || (beforeLast.y === last.y && last.y === point.y))) {
+      result[result.length - 1] = point;
+      continue;
+    }
+    result.push(point);
+  }
+  return result;
+}
+
+function step(point: Point, direction: Direction, distance: number): Point {
+  const [dx, dy] = DIRECTION_STEPS[direction];
+  return { x: point.x + dx * distance, y: point.y + dy * distance };
+}
+
+function center(box: RouteBox): Point {
+  return { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+}
+
+function overlaps(a: RouteBox, b: RouteBox): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+function contains(outer: RouteBox, inner: RouteBox): boolean {
+  return outer.x <= inner.x && outer.y <= inner.y &&
+    outer.x + outer.width >= inner.x + inner.width && outer.y + outer.height >= inner.y + inner.height;
+}
+
+function boundingBox(boxes: RouteBox[]): RouteBox {
+  const left = Math.min(...boxes.map(b => b.x));
+  const top = Math.min(...boxes.map(b => b.y));
+  const right = Math.max(...boxes.map(b => b.x + b.width));
+  const bottom = Math.max(...boxes.map(b => b.y + b.height));
+  return { id: '', x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/**
+ * Obstacles overlapping the window that reaches a given distance around both ends of an edge
+ */
+function obstaclesWithin(obstacles: RouteBox[], source: RouteBox, target: RouteBox, reach: number): RouteBox[] {
+  const window = expand(boundingBox([source, target]), reach);
+  return obstacles.filter(box => overlaps(box, window));
+}
+
+function expand(box: RouteBox, amount: number): RouteBox {
+  return { ...box, x: box.x - amount, y: box.y - amount, width: box.width + amount * 2, height: box.height + amount * 2 };
+}
+
+/**
+ * Whether an orthogonal path runs through the inside of a box
+ */
+function crosses(path: Point[], box: RouteBox): boolean {
+  return path.slice(1).some((point, i) => {
+    const previous = path[i];
+    const left = Math.min(previous.x, point.x);
+    const right = Math.max(previous.x, point.x);
+    const top = Math.min(previous.y, point.y);
+    const bottom = Math.max(previous.y, point.y);
+    return left < box.x + box.width && right > box.x && top < box.y + box.height && bottom > box.y;
+  });
+}
+
+function insideRect(point: Point, rect: { left: number; top: number; right: number; bottom: number }): boolean {
+  return point.x > rect.left && point.x < rect.right && point.y > rect.top && point.y < rect.bottom;
+}
+
+function sortedUnique(values: number[]): number[] {
+  return [...new Set(values)].sort((a, b) => a - b);
+}
+
+/**
+ * Binary min-heap of search states keyed by priority
+ */
+interface Heap {
+  states: number[];
+  priorities: number[];
+}
+
+function heapPush(heap: Heap, state: number, priority: number): void {
+  let i = heap.states.length;
+  heap.states.push(state);
+  heap.priorities.push(priority);
+  while (i > 0) {
+    const up = (i - 1) >> 1;
+    if (heap.priorities[up] <= priority) break;
+    heapSwap(heap, i, up);
+    i = up;
+  }
+}
+
+function heapPop(heap: Heap): [number, number] {
+  const top: [number, number] = [heap.states[0], heap.priorities[0]];
+  const lastState = heap.states.pop()!;
+  const lastPriority = heap.priorities.pop()!;
+  if (heap.states.length === 0) return top;
+
+  heap.states[0] = lastState;
+  heap.priorities[0] = lastPriority;
+  for (let i = 0; ;) {
+    const left = i * 2 + 1;
+    const right = left + 1;
+    let smallest = i;
+    if (left < heap.states.length && heap.priorities[left] < heap.priorities[smallest]) smallest = left;
+    if (right < heap.states.length && heap.priorities[right] < heap.priorities[smallest]) smallest = right;
+    if (smallest === i) break;
+    heapSwap(heap, i, smallest);
+    i = smallest;
+  }
+  return top;
+}
+
+function heapSwap(heap: Heap, a: number, b: number): void {
+  [heap.states[a], heap.states[b]] = [heap.states[b], heap.states[a]];
+  [heap.priorities[a], heap.priorities[b]] = [heap.priorities[b], heap.priorities[a]];
+}
@@ -0,0 +1,370 @@
+import type { NodeShape } from '../types/index.js';
+
+export type Point = [number, number];
+
+/**
+ * One drawable part of a node shape, in coordinates relative to the node's top-left corner.
+ *
+ * - `fill: 'background'` uses the node's background color, `'stroke'` fills
+ *   solid with the stroke color (junctions, fork bars), `'none'` stays empty
+ * - `outline` marks the part arrows bind to and the label is centered in
+ */
+export type ShapePart =
+  | { type: 'rectangle'; x: number; y: number; width: number; height: number; rounded?: boolean; fill?: ShapeFill; outline?: boolean }
+  | { type: 'ellipse'; x: number; y: number; width: number; height: number; fill?: ShapeFill; outline?: boolean }
+  | { type: 'diamond'; x: number; y: number; width: number; height: number; fill?: ShapeFill; outline?: boolean }
+  | { type: 'polygon'; points: Point[]; fill?: ShapeFill; outline?: boolean }
+  | { type: 'path'; points: Point[]; smooth?: boolean };
+
+export type ShapeFill = 'background' | 'stroke' | 'none';
+
+// Shapes drawn without their label, like Mermaid does
+export const LABELLESS_SHAPES: ReadonlySet<NodeShape> = new Set<NodeShape>([
+  'small-circle',
+  'filled-circle',
+  'framed-circle',
+  'fork',
+]);
+
+// Shapes whose outline follows their box, so several arrows can attach along a side
+export const BOX_SHAPES: ReadonlySet<NodeShape> = new Set<NodeShape>([
+  'rectangle',
+  'rounded',
+  'subroutine',
+  'text',
+  'lined-rectangle',
+  'divided-rectangle',
+  'window-pane',
+  'tagged-rectangle',
+  'fork',
+]);
+
+// Insets for double borders and decoration lines
+const INSET = 8;
+const STACK_OFFSET = 6;
+const ARC_STEPS = 12;
+
+/**
+ * Geometry of a node shape within a `width` x `height` box.
+ * Parts are listed back to front.
+ */
+export function shapeGeometry(shape: NodeShape, width: number, height: number): ShapePart[] {
+  const w = width;
+  const h = height;
+
+  switch (shape) {
+    case 'rounded':
+      return [{ type: 'rectangle', x: 0, y: 0, width: w, height: h, rounded: true, outline: true }];
+
+    case 'ellipse':
+      return [{ type: 'ellipse', x: 0, y: 0, width: w, height: h, outline: true }];
+
+    case 'text':
+      return [{ type: 'rectangle', x: 0, y: 0, width: w, height: h, fill: 'none', outline: true }];
+
+    case 'subroutine':
+      return [
+        { type: 'rectangle', x: 0, y: 0, width: w, height: h, outline: true },
+        { type: 'rectangle', x: INSET, y: 0, width: w - INSET * 2, height: h, fill: 'none' },
+      ];
+
+    case 'circle':
+    case 'small-circle':
+      return [circle(w, h, 0, { outline: true })];
+
+    case 'filled-circle':
+      return [circle(w, h, 0, { fill: 'stroke', outline: true })];
+
+    case 'double-circle':
+      return [circle(w, h, 0, { outline: true }), circle(w, h, INSET / 2, { fill: 'none' })];
+
+    case 'framed-circle':
+      return [circle(w, h, 0, { outline: true }), circle(w, h, Math.min(w, h) / 4, { fill: 'stroke' })];
+
+    case 'crossed-circle': {
+      const d = Math.min(w, h);
+      const offset = (d / 2) * Math.SQRT1_2;
+      const cx = w / 2;
+      const cy = h / 2;
+      return [
+        circle(w, h, 0, { outline: true }),
+        { type: 'path', points: [[cx - offset, cy - offset], [cx + offset, cy + offset]] },
+        { type: 'path', points: [[cx + offset, cy - offset], [cx - offset, cy + offset]] },
+      ];
+    }
+
+    case 'asymmetric':
+      return [polygon([[0, 0], [w, 0], [w, h], [0, h], [h / 2, h / 2]])];
+
+    case 'lean-right': {
+      const slant = h * 0.4;
+      return [polygon([[slant, 0], [w, 0], [w - slant, h], [0, h]])];
+    }
+
+    case 'lean-left': {
+      const slant = h * 0.4;
+      return [polygon([[0, 0], [w - slant, 0], [w, h], [slant, h]])];
+    }
+
+    case 'trapezoid': {
+      const slant = h * 0.4;
+      return [polygon([[slant, 0], [w - slant, 0], [w, h], [0, h]])];
+    }
+
+    case 'inv-trapezoid': {
+      const slant = h * 0.4;
+      return [polygon([[0, 0], [w, 0], [w - slant, h], [slant, h]])];
+    }
+
+    case 'document':
+      return [polygon(documentPoints(w, h))];
+
+    case 'lined-document':
+      return [
+        polygon(documentPoints(w, h)),
+        { type: 'path', points: [[INSET, 0], [INSET, h * 0.85]] },
+      ];
+
+    case 'documents': {
+      const front = documentPoints(w - STACK_OFFSET * 2, h - STACK_OFFSET * 2);
+      return [
+        { type: 'polygon', points: translate(front, STACK_OFFSET * 2, 0) },
+        { type: 'polygon', points: translate(front, STACK_OFFSET, STACK_OFFSET) },
+        polygon(translate(front, 0, STACK_OFFSET * 2)),
+      ];
+    }
+
+    case 'tagged-document': {
+      const tag = Math.min(w, h) * 0.25;
+      return [
+        polygon(documentPoints(w, h)),
+        { type: 'path', points: [[w - tag, h * 0.85], [w, h * 0.85 - tag]] },
+      ];
+    }
+
+    case 'notched-rectangle': {
+      const notch = Math.min(w, h) * 0.25;
+      return [polygon([[notch, 0], [w, 0], [w, h], [0, h], [0, notch]])];
+    }
+
+    case 'lined-rectangle':
+      return [
+        { type: 'rectangle', x: 0, y: 0, width: w, height: h, outline: true },
+        { type: 'path', points: [[INSET, 0], [INSET, h]] },
+      ];
+
+    case 'divided-rectangle':
+      return [
+        { type: 'rectangle', x: 0, y: 0, width: w, height: h, outline: true },
+        { type: 'path', points: [[0, h * 0.25], [w, h * 0.25]] },
+      ];
+
+    case 'window-pane':
+      return [
+        { type: 'rectangle', x: 0, y: 0, width: w, height: h, outline: true },
+        { type: 'path', points: [[0, INSET * 1.5], [w, INSET * 1.5]] },
+        { type: 'path', points: [[INSET * 1.5, 0], [INSET * 1.5, h]] },
+      ];
+
+    case 'stacked-rectangle': {
+      const inner = { width: w - STACK_OFFSET * 2, height: h - STACK_OFFSET * 2 };
+      return [
+        { type: 'rectangle', x: STACK_OFFSET * 2, y: 0, ...inner },
+        { type: 'rectangle', x: STACK_OFFSET, y: STACK_OFFSET, ...inner },
+        { type: 'rectangle', x: 0, y: STACK_OFFSET * 2, ...inner, outline: true },
+      ];
+    }
+
+    case 'tagged-rectangle': {
+      const tag = Math.min(w, h) * 0.25;
+      return [
+        { type: 'rectangle', x: 0, y: 0, width: w, height: h, outline: true },
+        { type: 'polygon', points: [[w - tag, h], [w, h - tag], [w, h]], fill: 'stroke' },
+      ];
+    }
+
+    case 'sloped-rectangle':
+      return [polygon([[0, h * 0.3], [w, 0], [w, h], [0, h]])];
+
+    case 'bow-tie-rectangle': {
+      // Stored data: convex left end, concave right end
+      const r = h / 4;
+      return [polygon([
+        ...arc(r, h / 2, r, h / 2, -90, -270),
+        ...arc(w, h / 2, r, h / 2, 90, 270),
+      ])];
+    }
+
+    case 'notched-pentagon': {
+      const notch = Math.min(w, h) * 0.3;
+      return [polygon([[notch, 0], [w - notch, 0], [w, notch], [w, h], [0, h], [0, notch]])];
+    }
+
+    case 'delay': {
+      const r = h / 2;
+      return [polygon([[0, 0], ...arc(w - r, r, r, r, -90, 90), [0, h]])];
+    }
+
+    case 'curved-trapezoid': {
+      const r = h / 2;
+      const point = h * 0.4;
+      return [polygon([[0, h / 2], [point, 0], ...arc(w - r, r, r, r, -90, 90), [point, h]])];
+    }
+
+    case 'flag': {
+      const amplitude = h * 0.1;
+      return [polygon([
+        ...wave(0, w, amplitude, amplitude),
+        ...wave(w, 0, h - amplitude, amplitude),
+      ])];
+    }
+
+    case 'horizontal-cylinder': {
+      const rx = Math.min(h / 4, w / 4);
+      return [
+        polygon([...arc(w - rx, h / 2, rx, h / 2, -90, 90), ...arc(rx, h / 2, rx, h / 2, 90, 270)]),
+        { type: 'ellipse', x: w - rx * 2, y: 0, width: rx * 2, height: h },
+      ];
+    }
+
+    case 'cylinder':
+    case 'lined-cylinder': {
+      const ry = Math.min(h / 6, w / 4);
+      const parts: ShapePart[] = [
+        polygon([[0, ry], ...arc(w / 2, h - ry, w / 2, ry, 180, 0), [w, ry], ...arc(w / 2, ry, w / 2, ry, 0, -180)]),
+        { type: 'ellipse', x: 0, y: 0, width: w, height: ry * 2 },
+      ];
+      if (shape === 'lined-cylinder') {
+        parts.push({ type: 'path', points: arc(w / 2, ry + INSET, w / 2, ry, 180, 0), smooth: true });
+      }
+      return parts;
+    }
+
+    case 'triangle':
+      return [polygon([[w / 2, 0], [w, h], [0, h]])];
+
+    case 'flipped-triangle':
+      return [polygon([[0, 0], [w, 0], [w / 2, h]])];
+
+    case 'hourglass':
+      return [polygon([[0, 0], [w, 0], [0, h], [w, h]])];
+
+    case 'fork':
+      return [{ type: 'rectangle', x: 0, y: 0, width: w, height: h, fill: 'stroke', outline: true }];
+
+    case 'bolt':
+      return [polygon([
+        [w * 0.6, 0], [w * 0.15, h * 0.55], [w * 0.45, h * 0.55],
+        [w * 0.35, h], [w * 0.85, h * 0.4], [w * 0.55, h * 0.4],
+      ])];
+
+    case 'brace-left':
+      return [
+        { type: 'rectangle', x: 0, y: 0, width: w, height: h, fill: 'none', outline: true },
+        brace(0, h, 1),
+      ];
+
+    case 'brace-right':
+      return [
+        { type: 'rectangle', x: 0, y: 0, width: w, height: h, fill: 'none', outline: true },
+        brace(w, h, -1),
+      ];
+
+    case 'braces':
+      return [
+        { type: 'rectangle', x: 0, y: 0, width: w, height: h, fill: 'none', outline: true },
+        brace(0, h, 1),
+        brace(w, h, -1),
+      ];
+
+    case 'diamond':
+      return [{ type: 'diamond', x: 0, y: 0, width: w, height: h, outline: true }];
+
+    case 'stadium': {
+      const r = Math.min(h / 2, w / 2);
+      return [polygon([...arc(w - r, h / 2, r, h / 2, -90, 90), ...arc(r, h / 2, r, h / 2, 90, 270)])];
+    }
+
+    case 'hexagon': {
+      const inset = Math.min(h / 4, w / 4);
+      return [polygon([[inset, 0], [w - inset, 0], [w, h / 2], [w - inset, h], [inset, h], [0, h / 2]])];
+    }
+
+    case 'rectangle':
+    default:
+      return [{ type: 'rectangle', x: 0, y: 0, width: w, height: h, outline: true }];
+  }
+}
+
+function polygon(points: Point[]): ShapePart {
+  return { type: 'polygon', points, outline: true };
+}
+
+/**
+ * A circle centered in the box, shrunk by `inset`
+ */
+function circle(
+  w: number,
+  h: number,
+  inset: number,
+  options: { fill?: ShapeFill; outline?: boolean }
+): ShapePart {
+  const d = Math.min(w, h) - inset * 2;
+  return { type: 'ellipse', x: (w - d) / 2, y: (h - d) / 2, width: d, height: d, ...options };
+}
+
+/**
+ * Points along an elliptic arc; angles in degrees, 0 = right, 90 = down
+ */
+function arc(cx: number, cy: number, rx: number, ry: number, from: number, to: number): Point[] {
+  const points: Point[] = [];
+  for (let i = 0; i <= ARC_STEPS; i++) {
+    const angle = ((from + ((to - from) * i) / ARC_STEPS) * Math.PI) / 180;
+    points.push([cx + rx * Math.cos(angle), cy + ry * Math.sin(angle)]);
+  }
+  return points;
+}
+
+/**
+ * One sine period from x1 to x2 around `y`
+ */
+function wave(x1: number, x2: number, y: number, amplitude: number): Point[] {
+  const points: Point[] = [];
+  for (let i = 0; i <= ARC_STEPS; i++) {
+    const t = i / ARC_STEPS;
+    points.push([x1 + (x2 - x1) * t, y + amplitude * Math.sin(t * Math.PI * 2)]);
+  }
+  return points;
+}
+
+/**
+ * Document outline: flat top, wavy bottom edge
+ */
+function documentPoints(w: number, h: number): Point[] {
+  const amplitude = h * 0.08;
+  return [[0, 0], [w, 0], ...wave(w, 0, h - amplitude, amplitude)];
+}
+
+function translate(points: Point[], dx: number, dy: number): Point[] {
+  return points.map(([x, y]) => [x + dx, y + dy]);
+}
+
+/**
+ * Curly brace along a vertical side; `facing` 1 opens to the right, -1 to the left
+ */
+function brace(x: number, h: number, facing: 1 | -1): ShapePart {
+  const depth = INSET * facing;
+  return {
+    type: 'path',
+    smooth: true,
+    points: [
+      [x + depth * 1.5, 0],
+      [x + depth * 0.75, INSET],
+      [x + depth * 0.75, h / 2 - INSET],
+      [x, h / 2],
+      [x + depth * 0.75, h / 2 + INSET],
+      [x + depth * 0.75, h - INSET],
+      [x + depth * 1.5, h],
+    ],
+  };
+}
@@ -43,6 +43,8 @@ const SEMANTIC_PATTERNS: Array<{ pattern: RegExp; style: StyleType }> = [
 // Shape-based inference
 const SHAPE_STYLES: Record<string, StyleType> = {
   cylinder: 'db',
+  'lined-cylinder': 'db',
+  'horizontal-cylinder': 'db',
   stadium: 'cache',
   hexagon: 'orchestrator',
 };
@@ -61,6 +63,10 @@ export function inferStyleFromLabel(label: string): StyleType | undefined {
   return undefined;
 }
 
+export function isStyleType(name: string): name is StyleType {
+  return Object.prototype.hasOwnProperty.call(COLOR_PALETTE, name);
+}
+
 export function inferStyleFromShape(shape: string): StyleType | undefined {
   return SHAPE_STYLES[shape];
 }
@@ -69,17 +75,22 @@ export function resolveStyle(
   nodeId: string,
   label: string,
   shape: string,
-  explicitStyles: Record<string, StyleType>
+  explicitStyles: Record<string, StyleType>,
+  classNames: string[] = []
 ): StyleType | undefined {
   // 1. Explicit mapping takes precedence
   if (explicitStyles[nodeId]) {
     return explicitStyles[nodeId];
   }
 
-  // 2. Shape-based inference
+  // 2. Mermaid class named after a style type (`class A db`, `A:::db`), last one wins
+  const classStyle = [...classNames].reverse().find(isStyleType);
+  if (classStyle) return classStyle;
+
+  // 3. Shape-based inference
   const shapeStyle = inferStyleFromShape(shape);
   if (shapeStyle) return shapeStyle;
 
-  // 3. Label-based inference
+  // 4. Label-based inference
   return inferStyleFromLabel(label);
 }
@@ -0,0 +1,237 @@
+/**
+ * Text measurement for Excalidraw's fonts, used to size nodes and place labels.
+ * Widths are em fractions per character; wide CJK characters and emoji are
+ * measured as full squares, combining marks as zero width.
+ */
+
+export const FONT_FAMILIES = {
+  virgil: 1,
+  helvetica: 2,
+  cascadia: 3,
+  excalifont: 5,
+  nunito: 6,
+  lilitaOne: 7,
+} as const;
+
+export const DEFAULT_FONT_FAMILY = FONT_FAMILIES.virgil;
+// Excalidraw has no bold weight, so Lilita One, its heaviest font, stands in for bold labels
+export const BOLD_FONT_FAMILY = FONT_FAMILIES.lilitaOne;
+export const DEFAULT_FONT_SIZE = 16;
+export const DEFAULT_LINE_HEIGHT = 1.25;
+
+// Excalidraw's padding between a container's outline and its bound text
+export const BOUND_TEXT_PADDING = 5;
+
+export interface TextStyle {
+  fontSize?: number;
+  fontFamily?: number;
+  lineHeight?: number;
+}
+
+// Helvetica advance widths for ASCII 32..126, in thousandths of an em
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, // space../
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, // 0..?
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778, // @..O
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, // P.._
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, // `..o
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584, // p..~
+].map(width => width / 1000);
+
+// Advance widths of the fonts Excalidraw ships, for ASCII 32..126 in thousandths of an em
+const VIRGIL_WIDTHS = [
+  500, 296, 328, 797, 803, 939, 719, 266, 415, 338, 516, 625, 257, 411, 274, 500,
+  688, 271, 712, 681, 640, 618, 640, 538, 765, 609, 242, 258, 605, 617, 485, 466,
+  805, 656, 727, 644, 780, 674, 574, 789, 551, 545, 634, 613, 599, 766, 644, 726,
+  661, 705, 678, 608, 804, 714, 517, 746, 598, 516, 797, 491, 500, 500, 544, 826,
+  437, 667, 508, 502, 569, 547, 486, 501, 494, 219, 328, 487, 263, 633, 467, 554,
+  493, 546, 430, 543, 565, 568, 523, 609, 562, 469, 572, 573, 168, 496, 841,
+].map(width => width / 1000);
+
+const EXCALIFONT_WIDTHS = [
+  400, 314, 371, 783, 721, 928, 718, 218, 441, 402, 525, 550, 257, 411, 274, 561,
+  664, 427, 700, 608, 585, 618, 640, 558, 636, 629, 264, 298, 550, 550, 550, 466,
+  829, 676, 761, 629, 780, 707, 661, 780, 573, 545, 569, 613, 543, 766, 632, 767,
+  698, 768, 736, 622, 857, 730, 592, 786, 628, 564, 832, 472, 589, 497, 510, 670,
+  600, 576, 555, 504, 605, 537, 497, 555, 567, 244, 328, 533, 225, 663, 526, 600,
+  537, 539, 412, 543, 553, 548, 525, 693, 591, 530, 572, 504, 299, 544, 669,
+].map(width => width / 1000);
+
+// Cascadia Code is monospaced
+const CASCADIA_WIDTHS = HELVETICA_WIDTHS.map(() => 0.586);
+
+const NUNITO_WIDTHS = [
+  261, 233, 405, 600, 600, 933, 701, 226, 326, 326, 451, 600, 233, 427, 233, 290,
+  600, 600, 600, 600, 600, 600, 600, 600, 600, 600, 233, 233, 600, 600, 600, 447,
+  947, 733, 679, 675, 747, 586, 551, 729, 764, 262, 331, 634, 548, 858, 741, 771,
+  637, 771, 673, 618, 607, 731, 694, 1104, 655, 601, 593, 324, 290, 324, 600, 500,
+  361, 533, 587, 465, 587, 534, 340, 590, 572, 237, 241, 508, 301, 861, 572, 560,
+  587, 587, 365, 483, 358, 565, 518, 844, 530, 517, 466, 361, 270, 361, 600,
+].map(width => width / 1000);
+
+const LILITA_WIDTHS = [
+  188, 287, 460, 833, 531, 798, 667, 301, 430, 422, 557, 602, 305, 525, 229, 573,
+  639, 406, 525, 528, 598, 524, 575, 500, 570, 565, 277, 277, 484, 580, 450, 584,
+  867, 655, 594, 561, 616, 493, 472, 621, 644, 429, 462, 620, 435, 907, 648, 696,
+  570, 706, 590, 531, 502, 628, 661, 953, 683, 615, 563, 385, 587, 385, 687, 636,
+  350, 517, 520, 424, 565, 486, 375, 516, 501, 273, 271, 531, 272, 788, 551, 513,
+  555, 511, 396, 450, 368, 544, 521, 752, 557, 537, 454, 362, 628, 362, 459,
+].map(width => width / 1000);
+
+const FONT_WIDTHS: Record<number, number[]> = {
+  [FONT_FAMILIES.virgil]: VIRGIL_WIDTHS,
+  [FONT_FAMILIES.helvetica]: HELVETICA_WIDTHS,
+  [FONT_FAMILIES.cascadia]: CASCADIA_WIDTHS,
+  [FONT_FAMILIES.excalifont]: EXCALIFONT_WIDTHS,
+  [FONT_FAMILIES.nunito]: NUNITO_WIDTHS,
+  [FONT_FAMILIES.lilitaOne]: LILITA_WIDTHS,
+};
+
+const WIDE_WIDTH = 1;
+const EMOJI_WIDTH = 1.2;
+
+// East Asian wide and fullwidth ranges
+const WIDE_RANGES: Array<[number, number]> = [
+  [0x1100, 0x115f], // Hangul Jamo
+  [0x2e80, 0x303e], // CJK radicals, punctuation
+  [0x3041, 0x33ff], // Kana, CJK compatibility
+  [0x3400, 0x4dbf], // CJK extension A
+  [0x4e00, 0x9fff], // CJK unified ideographs
+  [0xa000, 0xa4cf], // Yi
+  [0xac00, 0xd7a3], // Hangul syllables
+  [0xf900, 0xfaff], // CJK compatibility ideographs
+  [0xfe30, 0xfe4f], // CJK compatibility forms
+  [0xff00, 0xff60], // Fullwidth forms
+  [0xffe0, 0xffe6],
+  [0x20000, 0x3fffd], // CJK extensions B and beyond
+];
+
+const EMOJI_RANGES: Array<[number, number]> = [
+  [0x2600, 0x27bf], // Miscellaneous symbols, dingbats
+  [0x1f000, 0x1faff], // Emoji blocks
+];
+
+const ZERO_WIDTH_RANGES: Array<[number, number]> = [
+  [0x0300, 0x036f], // Combining diacritics
+  [0x200b, 0x200f], // Zero-width spaces and joiners
+  [0xfe00, 0xfe0f], // Variation selectors
+  [0x1f3fb, 0x1f3ff], // Skin tone modifiers
+];
+
+const ZERO_WIDTH_JOINER = 0x200d;
+
+function inRanges(code: number, ranges: Array<[number, number]>): boolean {
+  return ranges.some(([start, end]) => code >= start && code <= end);
+}
+
+/**
+ * Width of a single line in pixels
+ */
+export function measureLine(line: string, style: TextStyle = {}): number {
+  const fontSize = style.fontSize ?? DEFAULT_FONT_SIZE;
+  const widths = FONT_WIDTHS[style.fontFamily ?? DEFAULT_FONT_FAMILY] ?? VIRGIL_WIDTHS;
+  // Other scripts (accented Latin, Greek, Cyrillic, ...) measure like an average lowercase letter
+  const fallback = widths['n'.charCodeAt(0) - 32];
+
+  let em = 0;
+  let joined = false;
+  for (const char of line) {
+    const code = char.codePointAt(0)!;
+    if (code === ZERO_WIDTH_JOINER) {
+      joined = true; // The next emoji merges into the previous one
+      continue;
+    }
+    if (inRanges(code, ZERO_WIDTH_RANGES)) continue;
+
+    if (code >= 32 && code <= 126) {
+      em += widths[code - 32];
+    } else if (inRanges(code, EMOJI_RANGES)) {
+      em += joined ? 0 : EMOJI_WIDTH;
+    } else if (inRanges(code, WIDE_RANGES)) {
+      em += WIDE_WIDTH;
+    } else if (code === 0x09) {
+      em += widths[0] * 4;
+    } else {
+      em += fallback;
+    }
+    joined = false;
+  }
+
+  return em * fontSize;
+}
+
+/**
+ * Size of a possibly multi-line text block in pixels
+ */
+export function measureText(text: string, style: TextStyle = {}): { width: number; height: number } {
+  const lines = text.split('\n');
+  const fontSize = style.fontSize ?? DEFAULT_FONT_SIZE;
+  return {
+    width: Math.max(0, ...lines.map(line => measureLine(line, style))),
+    height: lines.length * fontSize * (style.lineHeight ?? DEFAULT_LINE_HEIGHT),
+  };
+}
+
+/**
+ * Word-wrap text so no line is wider than `maxWidth`. Words longer than a line
+ * are broken between characters, and wide (CJK) text may break anywhere.
+ */
+export function wrapText(text: string, maxWidth: number, style: TextStyle = {}): string {
+  const wrapped: string[] = [];
+
+  for (const line of text.split('\n')) {
+    let current = '';
+    for (const token of tokenize(line)) {
+      const candidate = current + token;
+      if (measureLine(candidate, style) <= maxWidth || current.trim() === '') {
+        current = candidate;
+      } else {
+        wrapped.push(current.trimEnd());
+        current = token.trimStart();
+      }
+
+      // A single token wider than the line is split by characters
+      while (measureLine(current, style) > maxWidth && [...current].length > 1) {
+        const [head, rest] = splitToFit(current, maxWidth, style);
+        wrapped.push(head);
+        current = rest;
+      }
+    }
+    wrapped.push(current.trimEnd());
+  }
+
+  return wrapped.join('\n');
+}
+
+/**
+ * Break points: words with their leading space, and every wide character on its own
+ */
+function tokenize(line: string): string[] {
+  const tokens: string[] = [];
+  let token = '';
+  for (const char of line) {
+    const code = char.codePointAt(0)!;
+    if (char === ' ' && token.trim() !== '') {
+      tokens.push(token);
+      token = char;
+    } else if (inRanges(code, WIDE_RANGES)) {
+      if (token) tokens.push(token);
+      tokens.push(char);
+      token = '';
+    } else {
+      token += char;
+    }
+  }
+  if (token) tokens.push(token);
+  return tokens;
+}
+
+function splitToFit(text: string, maxWidth: number, style: TextStyle): [string, string] {
+  const chars = [...text];
+  let head = chars[0];
+  let i = 1;
+  while (i < chars.length && measureLine(head + chars[i], style) <= maxWidth) {
+    head += chars[i++];
+  }
+  return [head, chars.slice(i).join('')];
+}
@@ -0,0 +1,53 @@
+import type { ExcalidrawElement } from '../types/index.js';
+
+/**
+ * Stacking layers, back to front: subgraph boxes sit behind node shapes,
+ * lifelines and arrows are drawn over shapes, sequence notes cover the
+ * lifelines they sit on, and text stays on top.
+ * Frames come last because Excalidraw keeps a frame above its children.
+ */
+export const LAYERS = ['subgraphs', 'shapes', 'lifelines', 'arrows', 'notes', 'labels', 'frames'] as const;
+
+export type Layer = typeof LAYERS[number];
+
+export type LayeredElements = Record<Layer, ExcalidrawElement[]>;
+
+// Fractional-index digits in ASCII order, so keys compare correctly as plain strings
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+export function createLayers(): LayeredElements {
+  return { subgraphs: [], shapes: [], lifelines: [], arrows: [], notes: [], labels: [], frames: [] };
+}
+
+/**
+ * Flatten layers into z-order and give every element its fractional index
+ */
+export function stackLayers(layers: LayeredElements): ExcalidrawElement[] {
+  const elements = LAYERS.flatMap(layer => layers[layer]);
+  elements.forEach((element, position) => {
+    element.index = fractionalIndex(position);
+  });
+  return elements;
+}
+
+/**
+ * The `position`-th integer key of the fractional-indexing scheme Excalidraw uses:
+ * `a0`..`az`, then `b00`..`bzz`, `c000`..., where the head letter encodes the
+ * number of digits. Unlike `a${n}`, these keys sort in order as strings.
+ */
+export function fractionalIndex(position: number): string {
+  let remaining = position;
+  for (let length = 1; length <= 26; length++) {
+    const capacity = DIGITS.length ** length;
+    if (remaining < capacity) {
+      let digits = '';
+      for (let i = 0; i < length; i++) {
+        digits = DIGITS[remaining % DIGITS.length] + digits;
+        remaining = Math.floor(remaining / DIGITS.length);
+      }
+      return String.fromCharCode('a'.charCodeAt(0) + length - 1) + digits;
+    }
+    remaining -= capacity;
+  }
+  throw new Error(`Fractional index out of range: ${position}`);
+}
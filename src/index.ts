@@ -11,6 +11,13 @@ import { parseFlowchart } from './parser/flowchart.js';
 import { parseSequenceDiagram } from './parser/sequence.js';
 import { parseERDiagram } from './parser/er.js';
 import { convertToExcalidraw } from './converter/index.js';
+import {
+  readConversionOptions,
+  SUBGRAPH_MODES,
+  EDGE_ROUTINGS,
+  LAYOUT_ENGINES,
+  MAX_SPACING,
+} from './options.js';
 import type { ParsedDiagram } from './types/index.js';
 
 const server = new Server(
@@ -44,6 +51,21 @@ function detectDiagramType(source: string): 'flowchart' | 'sequence' | 'er' | nu
   return null;
 }
 
+/**
+ * Error response for a tool argument that fails validation
+ */
+function invalidArgument(message: string) {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `Error: ${message}`,
+      },
+    ],
+    isError: true,
+  };
+}
+
 /**
  * Parse diagram based on detected type
  */
@@ -85,6 +107,42 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
                 'RECOMMENDED: Always provide this to avoid large responses. ' +
                 'If not provided, returns the full content (token-heavy).',
             },
+            subgraphs: {
+              type: 'string',
+              enum: SUBGRAPH_MODES,
+              description:
+                'How to emit subgraphs: native Excalidraw frames (enables frame navigation and slideshows) ' +
+                'or grouped rectangles. Defaults to frames for flowcharts.',
+            },
+            edgeRouting: {
+              type: 'string',
+              enum: EDGE_ROUTINGS,
+              description:
+                'How to draw edges: elbow arrows routed around nodes (default), ' +
+                'the same routes with rounded corners, or straight lines.',
+            },
+            layout: {
+              type: 'string',
+              enum: LAYOUT_ENGINES,
+              description:
+                'How to place nodes: layered ranks along the flow (flowchart default), ' +
+                'force-directed (ER default), an aligned grid, a radial tree, or a circle. ' +
+                'Overrides a %%{excali: layout: ...}%% directive. Sequence diagrams keep their timeline.',
+            },
+            spacing: {
+              type: 'object',
+              properties: {
+                nodeGap: { type: 'number', minimum: 0, maximum: MAX_SPACING, description: 'Pixels between neighbouring nodes' },
+                rankGap: { type: 'number', minimum: 0, maximum: MAX_SPACING, description: 'Pixels between ranks, rings or rows (message spacing in sequence diagrams)' },
+                subgraphPadding: { type: 'number', minimum: 0, maximum: MAX_SPACING, description: 'Pixels between a subgraph border and its nodes' },
+              },
+              additionalProperties: false,
+              description: 'Spacing overrides, also settable with %%{excali: spacing: {nodeGap: 60}}%%.',
+            },
+            mirrorParticipants: {
+              type: 'boolean',
+              description: 'Repeat sequence diagram participant headers below the lifelines, for long diagrams.',
+            },
           },
           required: ['mermaid'],
         },
@@ -106,10 +164,10 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   const { name, arguments: args } = request.params;
 
   if (name === 'convert') {
-    const mermaidSource = args?.mermaid as string;
-    const outputPath = args?.outputPath as string | undefined;
+    const mermaidSource = args?.mermaid;
+    const outputPath = args?.outputPath;
 
-    if (!mermaidSource) {
+    if (!mermaidSource || typeof mermaidSource !== 'string') {
       return {
         content: [
           {
@@ -121,6 +179,15 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       };
     }
 
+    if (outputPath !== undefined && typeof outputPath !== 'string') {
+      return invalidArgument('outputPath must be a string');
+    }
+
+    const options = readConversionOptions(args ?? {});
+    if (typeof options === 'string') {
+      return invalidArgument(options);
+    }
+
     try {
       const diagramType = detectDiagramType(mermaidSource);
 
@@ -138,7 +205,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       const parsed = parseDiagram(mermaidSource, diagramType);
-      const result = convertToExcalidraw(parsed);
+      const result = convertToExcalidraw(parsed, options);
 
       if (outputPath) {
         await writeFile(outputPath, result.obsidianContent, 'utf-8');
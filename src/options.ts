@@ -0,0 +1,57 @@
+/**
+ * Validation of the `convert` tool's option arguments, which arrive as
+ * untyped JSON from the MCP client.
+ */
+
+import type { ConversionOptions } from './converter/index.js';
+import type { SubgraphMode, EdgeRouting, LayoutEngine, LayoutSpacing } from './types/index.js';
+
+// Accepted values of the convert tool's option arguments
+export const SUBGRAPH_MODES: SubgraphMode[] = ['frame', 'group'];
+export const EDGE_ROUTINGS: EdgeRouting[] = ['orthogonal', 'rounded', 'straight'];
+export const LAYOUT_ENGINES: LayoutEngine[] = ['layered', 'force', 'grid', 'radial', 'circular'];
+const SPACING_KEYS: Array<keyof LayoutSpacing> = ['nodeGap', 'rankGap', 'subgraphPadding'];
+export const MAX_SPACING = 1000;
+
+/**
+ * Check the convert tool's option arguments against their allowed values;
+ * returns the conversion options, or a message describing the first invalid one
+ */
+export function readConversionOptions(args: Record<string, unknown>): ConversionOptions | string {
+  const { subgraphs, edgeRouting, layout, spacing, mirrorParticipants } = args;
+
+  if (subgraphs !== undefined && !SUBGRAPH_MODES.includes(subgraphs as SubgraphMode)) {
+    return `subgraphs must be one of ${SUBGRAPH_MODES.join(', ')}`;
+  }
+  if (edgeRouting !== undefined && !EDGE_ROUTINGS.includes(edgeRouting as EdgeRouting)) {
+    return `edgeRouting must be one of ${EDGE_ROUTINGS.join(', ')}`;
+  }
+  if (layout !== undefined && !LAYOUT_ENGINES.includes(layout as LayoutEngine)) {
+    return `layout must be one of ${LAYOUT_ENGINES.join(', ')}`;
+  }
+  if (mirrorParticipants !== undefined && typeof mirrorParticipants !== 'boolean') {
+    return 'mirrorParticipants must be a boolean';
+  }
+
+  if (spacing !== undefined) {
+    if (typeof spacing !== 'object' || spacing === null || Array.isArray(spacing)) {
+      return `spacing must be an object with ${SPACING_KEYS.join(', ')}`;
+    }
+    for (const [key, value] of Object.entries(spacing)) {
+      if (!SPACING_KEYS.includes(key as keyof LayoutSpacing)) {
+        return `Unknown spacing key: ${key} (expected ${SPACING_KEYS.join(', ')})`;
+      }
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > MAX_SPACING) {
+        return `spacing.${key} must be a number from 0 to ${MAX_SPACING}`;
+      }
+    }
+  }
+
+  return {
+    subgraphs: subgraphs as SubgraphMode | undefined,
+    edgeRouting: edgeRouting as EdgeRouting | undefined,
+    layout: layout as LayoutEngine | undefined,
+    spacing: spacing as LayoutSpacing | undefined,
+    mirrorParticipants,
+  };
+}
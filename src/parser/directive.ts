@@ -1,4 +1,4 @@
-import type { ExcaliDirective, StyleType } from '../types/index.js';
+import type { ExcaliDirective, LayoutEngine, LayoutSpacing, StyleType } from '../types/index.js';
 
 // Valid style types for validation
 const VALID_STYLES: Set<string> = new Set([
@@ -7,12 +7,17 @@ const VALID_STYLES: Set<string> = new Set([
   'highlight', 'group'
 ]);
 
+const VALID_LAYOUTS: Set<string> = new Set(['layered', 'force', 'grid', 'radial', 'circular']);
+
+const VALID_SPACING_KEYS: Set<string> = new Set(['nodeGap', 'rankGap', 'subgraphPadding']);
+
 /**
  * Parse %%{excali: ...}%% directive from Mermaid source
  *
  * Supports formats:
  * - %%{excali: theme: architecture, styles: {A: ui, B: db}}%%
  * - %%{excali: styles: {A: ui}}%%
+ * - %%{excali: layout: force, spacing: {nodeGap: 60, rankGap: 120}}%%
  * - No directive (returns empty styles)
  */
 export function parseExcaliDirective(mermaidSource: string): ExcaliDirective {
@@ -34,6 +39,27 @@ export function parseExcaliDirective(mermaidSource: string): ExcaliDirective {
     directive.theme = themeMatch[1];
   }
 
+  // Parse layout engine
+  const layoutMatch = content.match(/layout:\s*([\w-]+)/);
+  if (layoutMatch && VALID_LAYOUTS.has(layoutMatch[1])) {
+    directive.layout = layoutMatch[1] as LayoutEngine;
+  }
+
+  // Parse spacing overrides: spacing: { nodeGap: 60, rankGap: 120, subgraphPadding: 30 }
+  const spacingMatch = content.match(/spacing:\s*\{([^}]+)\}/);
+  if (spacingMatch) {
+    const spacing: LayoutSpacing = {};
+    const pairRegex = /(\w+):\s*(\d+(?:\.\d+)?)/g;
+    let match;
+    while ((match = pairRegex.exec(spacingMatch[1])) !== null) {
+      const [, key, value] = match;
+      if (VALID_SPACING_KEYS.has(key)) {
+        spacing[key as keyof LayoutSpacing] = Number(value);
+      }
+    }
+    directive.spacing = spacing;
+  }
+
   // Parse styles object
   // Match styles: { A: ui, B: db, ... }
   const stylesMatch = content.match(/styles:\s*\{([^}]+)\}/);
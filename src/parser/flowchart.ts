@@ -1,48 +1,172 @@
-import type { ParsedDiagram, ParsedNode, ParsedEdge, ParsedSubgraph } from '../types/index.js';
+import type {
+  ParsedDiagram,
+  ParsedNode,
+  ParsedEdge,
+  ParsedSubgraph,
+  EdgeArrowhead,
+  EdgeWeight,
+  Direction,
+  ElementStyle,
+  NodeShape,
+} from '../types/index.js';
 import { parseExcaliDirective, stripExcaliDirective } from './directive.js';
+import { parseStyleProperties } from './style.js';
+import { extractWikiLinks, decodeLabel } from './label.js';
 import { resolveStyle } from '../converter/styles.js';
 
-type Direction = 'TD' | 'TB' | 'LR' | 'RL' | 'BT';
-type NodeShape = 'rectangle' | 'cylinder' | 'stadium' | 'hexagon' | 'ellipse' | 'diamond';
-
-// Shape detection patterns from Mermaid syntax
-const SHAPE_PATTERNS: Array<{ pattern: RegExp; shape: NodeShape }> = [
-  { pattern: /\[\((.+?)\)\]/, shape: 'cylinder' },      // [(label)]
-  { pattern: /\(\[(.+?)\]\)/, shape: 'stadium' },       // ([label])
-  { pattern: /\{\{(.+?)\}\}/, shape: 'hexagon' },       // {{label}}
-  { pattern: /\(\((.+?)\)\)/, shape: 'ellipse' },       // ((label))
-  { pattern: /\{(.+?)\}/, shape: 'diamond' },           // {label}
-  { pattern: /\[(.+?)\]/, shape: 'rectangle' },         // [label]
-  { pattern: /\((.+?)\)/, shape: 'ellipse' },           // (label)
+// Shape delimiters from Mermaid syntax, longest opening first.
+// Openings shared by several shapes are told apart by their closing delimiter.
+const SHAPE_DELIMITERS: Array<{ open: string; close: string; shape: NodeShape }> = [
+  { open: '(((', close: ')))', shape: 'double-circle' }, // (((label)))
+  { open: '[(', close: ')]', shape: 'cylinder' },        // [(label)]
+  { open: '([', close: '])', shape: 'stadium' },         // ([label])
+  { open: '[[', close: ']]', shape: 'subroutine' },      // [[label]]
+  { open: '{{', close: '}}', shape: 'hexagon' },         // {{label}}
+  { open: '((', close: '))', shape: 'circle' },          // ((label))
+  { open: '[/', close: '/]', shape: 'lean-right' },      // [/label/]
+  { open: '[/', close: '\\]', shape: 'trapezoid' },      // [/label\]
+  { open: '[\\', close: '\\]', shape: 'lean-left' },     // [\label\]
+  { open: '[\\', close: '/]', shape: 'inv-trapezoid' },  // [\label/]
+  { open: '{', close: '}', shape: 'diamond' },           // {label}
+  { open: '[', close: ']', shape: 'rectangle' },         // [label]
+  { open: '(', close: ')', shape: 'rounded' },           // (label)
+  { open: '>', close: ']', shape: 'asymmetric' },        // >label]
 ];
 
-// Arrow patterns
-const ARROW_PATTERNS = [
-  { pattern: /--?>/, hasArrow: true, text: false },
-  { pattern: /===>/, hasArrow: true, text: false },
-  { pattern: /-.->/, hasArrow: true, text: false },
-  { pattern: /<--/, hasArrow: true, text: false },
-  { pattern: /---/, hasArrow: false, text: false },
-  { pattern: /--\|(.+?)\|/, hasArrow: true, text: true },
-  { pattern: /--"(.+?)"/, hasArrow: true, text: true },
+// Shape names for the Mermaid v11 `A@{ shape: doc, label: "..." }` syntax, including aliases
+const SHAPE_NAMES: Record<string, NodeShape> = {
+  'rect': 'rectangle', 'rectangle': 'rectangle', 'process': 'rectangle', 'proc': 'rectangle',
+  'rounded': 'rounded', 'event': 'rounded',
+  'stadium': 'stadium', 'pill': 'stadium', 'terminal': 'stadium',
+  'fr-rect': 'subroutine', 'subroutine': 'subroutine', 'subproc': 'subroutine', 'framed-rectangle': 'subroutine',
+  'cyl': 'cylinder', 'cylinder': 'cylinder', 'database': 'cylinder', 'db': 'cylinder',
+  'circle': 'circle', 'circ': 'circle',
+  'dbl-circ': 'double-circle', 'double-circle': 'double-circle',
+  'odd': 'asymmetric', 'asymmetric': 'asymmetric',
+  'diam': 'diamond', 'diamond': 'diamond', 'decision': 'diamond', 'question': 'diamond',
+  'hex': 'hexagon', 'hexagon': 'hexagon', 'prepare': 'hexagon',
+  'lean-r': 'lean-right', 'lean-right': 'lean-right', 'in-out': 'lean-right',
+  'lean-l': 'lean-left', 'lean-left': 'lean-left', 'out-in': 'lean-left',
+  'trap-b': 'trapezoid', 'trapezoid': 'trapezoid', 'priority': 'trapezoid', 'trapezoid-bottom': 'trapezoid',
+  'trap-t': 'inv-trapezoid', 'inv-trapezoid': 'inv-trapezoid', 'manual': 'inv-trapezoid', 'trapezoid-top': 'inv-trapezoid',
+  'text': 'text',
+  'doc': 'document', 'document': 'document',
+  'lin-doc': 'lined-document', 'lined-document': 'lined-document',
+  'docs': 'documents', 'documents': 'documents', 'st-doc': 'documents', 'stacked-document': 'documents', 'multi-doc': 'documents',
+  'tag-doc': 'tagged-document', 'tagged-document': 'tagged-document',
+  'notch-rect': 'notched-rectangle', 'notched-rectangle': 'notched-rectangle', 'card': 'notched-rectangle',
+  'lin-rect': 'lined-rectangle', 'lined-rectangle': 'lined-rectangle', 'lin-proc': 'lined-rectangle',
+  'lined-process': 'lined-rectangle', 'shaded-process': 'lined-rectangle',
+  'div-rect': 'divided-rectangle', 'divided-rectangle': 'divided-rectangle', 'div-proc': 'divided-rectangle',
+  'divided-process': 'divided-rectangle',
+  'st-rect': 'stacked-rectangle', 'stacked-rectangle': 'stacked-rectangle', 'procs': 'stacked-rectangle',
+  'processes': 'stacked-rectangle', 'multi-process': 'stacked-rectangle',
+  'tag-rect': 'tagged-rectangle', 'tagged-rectangle': 'tagged-rectangle', 'tag-proc': 'tagged-rectangle',
+  'tagged-process': 'tagged-rectangle',
+  'win-pane': 'window-pane', 'window-pane': 'window-pane', 'internal-storage': 'window-pane',
+  'sl-rect': 'sloped-rectangle', 'sloped-rectangle': 'sloped-rectangle', 'manual-input': 'sloped-rectangle',
+  'bow-rect': 'bow-tie-rectangle', 'bow-tie-rectangle': 'bow-tie-rectangle', 'stored-data': 'bow-tie-rectangle',
+  'notch-pent': 'notched-pentagon', 'notched-pentagon': 'notched-pentagon', 'loop-limit': 'notched-pentagon',
+  'delay': 'delay', 'half-rounded-rectangle': 'delay',
+  'curv-trap': 'curved-trapezoid', 'curved-trapezoid': 'curved-trapezoid', 'display': 'curved-trapezoid',
+  'flag': 'flag', 'paper-tape': 'flag',
+  'h-cyl': 'horizontal-cylinder', 'horizontal-cylinder': 'horizontal-cylinder', 'das': 'horizontal-cylinder',
+  'lin-cyl': 'lined-cylinder', 'lined-cylinder': 'lined-cylinder', 'disk': 'lined-cylinder',
+  'sm-circ': 'small-circle', 'small-circle': 'small-circle', 'start': 'small-circle',
+  'fr-circ': 'framed-circle', 'framed-circle': 'framed-circle', 'stop': 'framed-circle',
+  'f-circ': 'filled-circle', 'filled-circle': 'filled-circle', 'junction': 'filled-circle',
+  'cross-circ': 'crossed-circle', 'crossed-circle': 'crossed-circle', 'summary': 'crossed-circle',
+  'tri': 'triangle', 'triangle': 'triangle', 'extract': 'triangle',
+  'flip-tri': 'flipped-triangle', 'flipped-triangle': 'flipped-triangle', 'manual-file': 'flipped-triangle',
+  'hourglass': 'hourglass', 'collate': 'hourglass',
+  'fork': 'fork', 'join': 'fork',
+  'bolt': 'bolt', 'com-link': 'bolt', 'lightning-bolt': 'bolt',
+  'brace': 'brace-left', 'brace-l': 'brace-left', 'comment': 'brace-left',
+  'brace-r': 'brace-right',
+  'braces': 'braces',
+};
+
+// Bracket pairs that may nest inside unquoted labels
+const BRACKET_PAIRS: Record<string, string> = { '[': ']', '(': ')', '{': '}' };
+
+// Words that can never be node ids at the start of a statement
+const NODE_KEYWORDS = new Set(['subgraph', 'end', 'flowchart', 'graph', 'direction']);
+
+// Link body patterns (`-->`, `==>`, `-.->`, `~~~`) and how many ranks they span.
+// Solid and thick links grow by repeating the stroke, dotted links by adding dots.
+const ARROW_PATTERNS: Array<{
+  pattern: RegExp;
+  lineStyle: 'solid' | 'dotted';
+  weight: EdgeWeight;
+  length: (body: string, hasHead: boolean) => number;
+}> = [
+  { pattern: /^-{2,}$/, lineStyle: 'solid', weight: 'normal', length: (body, hasHead) => body.length - (hasHead ? 1 : 2) },
+  { pattern: /^={2,}$/, lineStyle: 'solid', weight: 'thick', length: (body, hasHead) => body.length - (hasHead ? 1 : 2) },
+  { pattern: /^-\.+-$/, lineStyle: 'dotted', weight: 'normal', length: body => body.length - 2 },
+  { pattern: /^~{3,}$/, lineStyle: 'solid', weight: 'invisible', length: body => body.length - 2 },
 ];
 
+// A full link token: optional start head, body, optional end head
+const LINK_TOKEN = /^([<ox]?)(-{2,}|={2,}|-\.+-|~{3,})([>ox]?)/;
+
+// Link with inline text: `-- text -->`, `== text ==>`, `-. text .->`
+const TEXT_LINK = /^([<ox]?)(--|==|-\.)(?![-=.>])\s*(.+?)\s*(-{2,}[>ox]|-{3,}|={2,}[>ox]|={3,}|\.+-[>ox]?)/;
+
+const ARROWHEADS: Record<string, EdgeArrowhead> = {
+  '<': 'arrow',
+  '>': 'arrow',
+  o: 'circle',
+  x: 'cross',
+};
+
 interface RawNode {
   id: string;
   label: string;
   shape: NodeShape;
+  bare?: boolean; // Referenced by id only, without a shape definition
+  classes?: string[]; // From the `:::class` shorthand
+  rawLabel?: string;
+  link?: string;
+  bold?: boolean;
+}
+
+// A node shape as lexed from the source, before label decoding
+interface ShapeToken {
+  shape: NodeShape;
+  text: string;
+  quoted: boolean;
+  length: number;
+}
+
+interface RawLink {
+  label?: string;
+  lineStyle: 'solid' | 'dotted';
+  weight: EdgeWeight;
+  startArrowhead?: EdgeArrowhead;
+  endArrowhead?: EdgeArrowhead;
+  length: number;
 }
 
 interface RawEdge {
   source: string;
   target: string;
-  label?: string;
+  link: RawLink;
+}
+
+interface RawStyling {
+  classDefs: Map<string, ElementStyle>;
+  nodeClasses: Map<string, string[]>;
+  nodeStyles: Map<string, ElementStyle>;
+  linkStyles: Map<number | 'default', ElementStyle>; // By edge index in definition order
 }
 
 interface RawSubgraph {
   id: string;
   label: string;
-  content: string;
+  parent?: string;
+  children: string[];
+  nodes: string[];
+  direction?: Direction;
 }
 
 /**
@@ -57,62 +181,124 @@ export function parseFlowchart(mermaidSource: string): ParsedDiagram {
   const headerLine = lines[0] || '';
   const direction = parseDirection(headerLine);
 
-  // Parse subgraphs first
-  const subgraphs = parseSubgraphs(cleanSource);
-  const subgraphNodeIds = new Set(subgraphs.flatMap(sg => sg.nodes));
-
-  // Parse nodes and edges
+  // Parse nodes, edges and the subgraph hierarchy
   const nodesMap = new Map<string, RawNode>();
   const edges: RawEdge[] = [];
+  const subgraphs: RawSubgraph[] = [];
+  const subgraphStack: RawSubgraph[] = [];
+  // Innermost subgraph each node was first mentioned in
+  const nodeOwners = new Map<string, RawSubgraph>();
+  const clickLinks = new Map<string, string>();
+  const styling: RawStyling = {
+    classDefs: new Map(),
+    nodeClasses: new Map(),
+    nodeStyles: new Map(),
+    linkStyles: new Map(),
+  };
 
-  // Process each line (skip header)
+  // Process each line (skip header), splitting it into `;`-separated statements
   for (let i = 1; i < lines.length; i++) {
     const line = lines[i];
+    const current = subgraphStack[subgraphStack.length - 1];
 
-    // Skip subgraph declarations
-    if (line.startsWith('subgraph') || line === 'end') continue;
+    // Start of a (possibly nested) subgraph
+    const subgraphMatch = line.match(/^subgraph\s+(.+)$/);
+    if (subgraphMatch) {
+      const subgraph = parseSubgraphHeader(subgraphMatch[1], subgraphs.length);
+      subgraph.parent = current?.id;
+      current?.children.push(subgraph.id);
+      subgraphs.push(subgraph);
+      subgraphStack.push(subgraph);
+      continue;
+    }
 
-    // Try to parse as edge definition
-    const edgeResult = parseEdgeLine(line);
-    if (edgeResult) {
-      // Add source node if not exists
-      if (edgeResult.sourceNode && !nodesMap.has(edgeResult.sourceNode.id)) {
-        nodesMap.set(edgeResult.sourceNode.id, edgeResult.sourceNode);
-      }
-      // Add target node if not exists
-      if (edgeResult.targetNode && !nodesMap.has(edgeResult.targetNode.id)) {
-        nodesMap.set(edgeResult.targetNode.id, edgeResult.targetNode);
-      }
-      edges.push(edgeResult.edge);
+    // End of the innermost subgraph
+    if (/^end\s*;?$/.test(line)) {
+      subgraphStack.pop();
       continue;
     }
 
-    // Try to parse as standalone node definition
-    const nodeResult = parseNodeDefinition(line);
-    if (nodeResult && !nodesMap.has(nodeResult.id)) {
-      nodesMap.set(nodeResult.id, nodeResult);
+    // Direction override inside a subgraph
+    const directionMatch = line.match(/^direction\s+(TD|TB|LR|RL|BT)\s*;?$/i);
+    if (directionMatch) {
+      if (current) current.direction = directionMatch[1].toUpperCase() as Direction;
+      continue;
+    }
+
+    for (const statement of splitStatements(line)) {
+      if (parseStyleStatement(statement, styling)) continue;
+      if (parseClickStatement(statement, clickLinks)) continue;
+
+      const result = parseStatement(statement);
+      if (!result) continue;
+
+      for (const node of result.nodes) {
+        addNode(nodesMap, node);
+        if (current && !nodeOwners.has(node.id)) {
+          nodeOwners.set(node.id, current);
+        }
+        if (node.classes) {
+          addClasses(styling, node.id, node.classes);
+        }
+      }
+      edges.push(...result.edges);
     }
   }
 
-  // Convert to final format with styles resolved
-  const nodes: ParsedNode[] = Array.from(nodesMap.values()).map(node => ({
-    id: node.id,
-    label: node.label,
-    shape: node.shape,
-    styleType: resolveStyle(node.id, node.label, node.shape, directive.styles),
-  }));
+  // Ids that name a subgraph (e.g. `A --> ClusterB`) are edge endpoints, not nodes
+  const subgraphIds = new Set(subgraphs.map(sg => sg.id));
+  for (const [id, node] of nodesMap) {
+    if (subgraphIds.has(id) && node.bare) {
+      nodesMap.delete(id);
+    }
+  }
 
-  const parsedEdges: ParsedEdge[] = edges.map(edge => ({
-    source: edge.source,
-    target: edge.target,
-    label: edge.label,
-    arrowType: 'arrow' as const,
+  for (const [id, owner] of nodeOwners) {
+    if (nodesMap.has(id)) {
+      owner.nodes.push(id);
+    }
+  }
+
+  // Convert to final format with styles resolved
+  const nodes: ParsedNode[] = Array.from(nodesMap.values()).map(node => {
+    const classNames = [
+      ...(styling.classDefs.has('default') ? ['default'] : []),
+      ...(styling.nodeClasses.get(node.id) ?? []),
+    ];
+    return {
+      id: node.id,
+      label: node.label,
+      rawLabel: node.rawLabel,
+      shape: node.shape,
+      styleType: resolveStyle(node.id, node.label, node.shape, directive.styles, classNames),
+      style: resolveNodeStyle(node.id, classNames, styling),
+      link: clickLinks.get(node.id) ?? node.link,
+      bold: node.bold,
+    };
+  });
+
+  const parsedEdges: ParsedEdge[] = edges.map(({ source, target, link }, index) => ({
+    source,
+    target,
+    label: link.label,
+    arrowType: link.startArrowhead && link.endArrowhead ? 'both' as const
+      : link.endArrowhead ? 'arrow' as const
+      : 'none' as const,
+    lineStyle: link.lineStyle,
+    startArrowhead: link.startArrowhead,
+    endArrowhead: link.endArrowhead,
+    weight: link.weight,
+    minLength: link.length,
+    style: resolveLinkStyle(index, styling),
   }));
 
   const parsedSubgraphs: ParsedSubgraph[] = subgraphs.map(sg => ({
     id: sg.id,
     label: sg.label,
     nodes: sg.nodes,
+    parent: sg.parent,
+    children: sg.children,
+    direction: sg.direction,
     styleType: directive.styles[sg.id] || 'group',
   }));
 
@@ -132,129 +318,403 @@ function parseDirection(headerLine: string): Direction {
   return (match?.[1]?.toUpperCase() as Direction) || 'TD';
 }
 
-function parseSubgraphs(source: string): Array<{ id: string; label: string; nodes: string[] }> {
-  const subgraphs: Array<{ id: string; label: string; nodes: string[] }> = [];
-  const lines = source.split('\n');
+/**
+ * Parse the text after `subgraph`: `id`, `id [Label]`, `id["Label"]` or a
+ * bare title such as `"My Group"`, which gets a generated id like Mermaid does.
+ */
+function parseSubgraphHeader(header: string, count: number): RawSubgraph {
+  const text = header.trim().replace(/;$/, '');
+  const idWithLabel = text.match(/^([A-Za-z_][A-Za-z0-9_]*)\s*\[(.*)\]$/);
+  if (idWithLabel) {
+    return { id: idWithLabel[1], label: decodeTitle(idWithLabel[2]), children: [], nodes: [] };
+  }
 
-  let currentSubgraph: { id: string; label: string; nodes: string[] } | null = null;
-  let depth = 0;
+  const title = decodeTitle(text);
+  const id = /^[A-Za-z_][A-Za-z0-9_]*$/.test(title) ? title : `subGraph${count}`;
+  return { id, label: title, children: [], nodes: [] };
+}
 
-  for (const line of lines) {
-    const trimmed = line.trim();
+function decodeTitle(title: string): string {
+  const trimmed = title.trim();
+  const quoted = trimmed.match(/^"(.*)"$/);
+  return decodeLabel(quoted ? quoted[1] : trimmed, quoted !== null).text;
+}
 
-    // Start of subgraph
-    const subgraphMatch = trimmed.match(/^subgraph\s+(\w+)(?:\s*\[(.+?)\])?/);
-    if (subgraphMatch) {
-      if (depth === 0) {
-        currentSubgraph = {
-          id: subgraphMatch[1],
-          label: subgraphMatch[2] || subgraphMatch[1],
-          nodes: [],
-        };
-      }
-      depth++;
-      continue;
+/**
+ * Parse `classDef`, `class` and `style` statements into the styling state.
+ * Returns false if the statement is none of these.
+ */
+function parseStyleStatement(statement: string, styling: RawStyling): boolean {
+  // classDef db,store fill:#b2f2bb,stroke:#2f9e44
+  const classDefMatch = statement.match(/^classDef\s+([\w,-]+)\s+(.+)$/);
+  if (classDefMatch) {
+    const style = parseStyleProperties(classDefMatch[2]);
+    for (const name of classDefMatch[1].split(',')) {
+      styling.classDefs.set(name, { ...styling.classDefs.get(name), ...style });
     }
+    return true;
+  }
+
+  // class A,B db
+  const classMatch = statement.match(/^class\s+(.+?)\s+([\w-]+)$/);
+  if (classMatch) {
+    for (const id of classMatch[1].split(',').map(i => i.trim()).filter(Boolean)) {
+      addClasses(styling, id, [classMatch[2]]);
+    }
+    return true;
+  }
+
+  // linkStyle 0,3 stroke:#e03131,stroke-width:3px / linkStyle default ...
+  const linkStyleMatch = statement.match(/^linkStyle\s+(default|\d+(?:\s*,\s*\d+)*)\s+(.+)$/);
+  if (linkStyleMatch) {
+    const style = parseStyleProperties(linkStyleMatch[2]);
+    const keys = linkStyleMatch[1] === 'default'
+      ? ['default' as const]
+      : linkStyleMatch[1].split(',').map(i => parseInt(i, 10));
+    for (const key of keys) {
+      styling.linkStyles.set(key, { ...styling.linkStyles.get(key), ...style });
+    }
+    return true;
+  }
+
+  // style A fill:#f9f,stroke-dasharray: 5 5
+  const styleMatch = statement.match(/^style\s+([A-Za-z_][A-Za-z0-9_]*)\s+(.+)$/);
+  if (styleMatch) {
+    const id = styleMatch[1];
+    styling.nodeStyles.set(id, { ...styling.nodeStyles.get(id), ...parseStyleProperties(styleMatch[2]) });
+    return true;
+  }
+
+  return false;
+}
+
+function addClasses(styling: RawStyling, id: string, classes: string[]): void {
+  const existing = styling.nodeClasses.get(id) ?? [];
+  styling.nodeClasses.set(id, [...existing, ...classes.filter(c => !existing.includes(c))]);
+}
+
+/**
+ * Combine classDef styles (in class order) with the node's own `style` statements,
+ * which take precedence
+ */
+function resolveNodeStyle(id: string, classNames: string[], styling: RawStyling): ElementStyle | undefined {
+  const style: ElementStyle = {};
+  for (const name of classNames) {
+    Object.assign(style, styling.classDefs.get(name));
+  }
+  Object.assign(style, styling.nodeStyles.get(id));
+  return Object.keys(style).length > 0 ? style : undefined;
+}
 
-    // End of subgraph
-    if (trimmed === 'end') {
-      depth--;
-      if (depth === 0 && currentSubgraph) {
-        subgraphs.push(currentSubgraph);
-        currentSubgraph = null;
+/**
+ * Parse `click A "https://..."` and `click A href "..." "tooltip" _blank` into
+ * element links. Callback forms (`click A call fn()`) are consumed but ignored.
+ * Returns false if the statement is not a click statement.
+ */
+function parseClickStatement(statement: string, clickLinks: Map<string, string>): boolean {
+  if (!/^click\s/.test(statement)) return false;
+
+  const hrefMatch = statement.match(/^click\s+([A-Za-z_][A-Za-z0-9_]*)\s+(?:href\s+)?"([^"]+)"/);
+  if (hrefMatch) {
+    clickLinks.set(hrefMatch[1], hrefMatch[2].trim());
+  }
+  return true;
+}
+
+/**
+ * Combine `linkStyle default` with the style for this edge index
+ */
+function resolveLinkStyle(index: number, styling: RawStyling): ElementStyle | undefined {
+  const style: ElementStyle = {
+    ...styling.linkStyles.get('default'),
+    ...styling.linkStyles.get(index),
+  };
+  return Object.keys(style).length > 0 ? style : undefined;
+}
+
+/**
+ * Add a node to the map. A later definition with a shape replaces an
+ * earlier bare reference, so `A --> B` followed by `B[Label]` keeps the label.
+ */
+function addNode(nodesMap: Map<string, RawNode>, node: RawNode): void {
+  const existing = nodesMap.get(node.id);
+  if (!existing || (existing.bare && !node.bare)) {
+    nodesMap.set(node.id, node);
+  }
+}
+
+/**
+ * Split a line into statements on `;`, ignoring separators inside
+ * quotes, brackets and edge labels.
+ */
+function splitStatements(line: string): string[] {
+  const statements: string[] = [];
+  const stack: string[] = [];
+  let inQuote = false;
+  let inPipe = false;
+  let current = '';
+
+  for (const char of line) {
+    if (char === '"') {
+      inQuote = !inQuote;
+    } else if (!inQuote) {
+      if (BRACKET_PAIRS[char]) stack.push(BRACKET_PAIRS[char]);
+      else if (char === stack[stack.length - 1]) stack.pop();
+      else if (char === '|' && stack.length === 0) inPipe = !inPipe;
+      else if (char === ';' && stack.length === 0 && !inPipe) {
+        if (current.trim()) statements.push(current.trim());
+        current = '';
+        continue;
       }
-      continue;
     }
+    current += char;
+  }
 
-    // Collect node IDs within subgraph
-    if (currentSubgraph && depth === 1) {
-      // Extract node IDs from edge definitions or standalone nodes
-      const nodeIds = extractNodeIds(trimmed);
-      for (const id of nodeIds) {
-        if (!currentSubgraph.nodes.includes(id)) {
-          currentSubgraph.nodes.push(id);
-        }
+  if (current.trim()) statements.push(current.trim());
+  return statements;
+}
+
+/**
+ * Parse a statement such as `A --> B[Label] --> C` or `A & B --> C & D`.
+ *
+ * A statement is a chain of node groups joined by links, where a group is one
+ * or more nodes separated by `&`. Every node of a group is connected to every
+ * node of the next group. Returns null if the statement is not a node or
+ * edge definition (e.g. `classDef` or `direction`).
+ */
+function parseStatement(statement: string): { nodes: RawNode[]; edges: RawEdge[] } | null {
+  const nodes: RawNode[] = [];
+  const edges: RawEdge[] = [];
+  let pos = 0;
+
+  const readGroup = (): RawNode[] | null => {
+    const group: RawNode[] = [];
+    for (;;) {
+      const node = readNode(statement, pos);
+      if (!node) return null;
+      group.push(node.node);
+      pos = node.end;
+
+      const amp = statement.slice(pos).match(/^\s*&\s*/);
+      if (!amp) return group;
+      pos += amp[0].length;
+    }
+  };
+
+  let previous = readGroup();
+  if (!previous) return null;
+  nodes.push(...previous);
+
+  for (;;) {
+    const link = readLink(statement, pos);
+    if (!link) break;
+    pos = link.end;
+
+    const next = readGroup();
+    if (!next) return null;
+    nodes.push(...next);
+
+    for (const source of previous) {
+      for (const target of next) {
+        edges.push({ source: source.id, target: target.id, link: link.link });
       }
     }
+    previous = next;
   }
 
-  return subgraphs;
+  if (statement.slice(pos).trim() !== '') return null;
+  return { nodes, edges };
 }
 
-function extractNodeIds(line: string): string[] {
-  const ids: string[] = [];
+/**
+ * Read a node reference (id plus optional shape) starting at `start`
+ */
+function readNode(text: string, start: number): { node: RawNode; end: number } | null {
+  const rest = text.slice(start);
+  const idMatch = rest.match(/^\s*([A-Za-z_][A-Za-z0-9_]*)/);
+  if (!idMatch) return null;
 
-  // Match node definitions like A[Label] or A
-  const nodePattern = /\b([A-Za-z_][A-Za-z0-9_]*)\s*(?:\[|\(|\{|$|-->|---)/g;
-  let match;
-  while ((match = nodePattern.exec(line)) !== null) {
-    const id = match[1];
-    // Skip keywords
-    if (!['subgraph', 'end', 'flowchart', 'graph', 'direction'].includes(id.toLowerCase())) {
-      ids.push(id);
+  const id = idMatch[1];
+  if (NODE_KEYWORDS.has(id.toLowerCase())) return null;
+
+  let end = start + idMatch[0].length;
+  let node: RawNode = { id, label: id, shape: 'rectangle', bare: true };
+
+  const shapeToken = lexShape(text, end);
+  if (shapeToken) {
+    node = parseNodeDefinition(id, shapeToken);
+    end += shapeToken.length;
+  }
+
+  // Class shorthand: `A:::db` or `A[Label]:::db`
+  const classMatch = text.slice(end).match(/^:::([A-Za-z0-9_-]+)/);
+  if (classMatch) {
+    node.classes = [classMatch[1]];
+    end += classMatch[0].length;
+  }
+
+  return { node, end };
+}
+
+/**
+ * Lex the shape part of a node (e.g. `[(Label)]`) directly following its id.
+ *
+ * A quoted label (`["Call f(x) [retry]"]`) is taken verbatim up to its closing
+ * quote. An unquoted label may contain balanced brackets (`[f(x) [retry]]`);
+ * stray closing brackets of another kind (`[Label with } brace]`) are plain text.
+ */
+function lexShape(text: string, start: number): ShapeToken | null {
+  const rest = text.slice(start);
+
+  for (const { open, close, shape } of SHAPE_DELIMITERS) {
+    if (!rest.startsWith(open)) continue;
+    const label = lexLabel(rest, open.length, close);
+    if (label) {
+      return { shape, ...label, length: label.length };
     }
   }
 
-  return ids;
+  return lexShapeObject(rest);
 }
 
-function parseNodeDefinition(text: string): RawNode | null {
-  // Try each shape pattern
-  for (const { pattern, shape } of SHAPE_PATTERNS) {
-    const match = text.match(/^([A-Za-z_][A-Za-z0-9_]*)\s*/);
-    if (!match) continue;
+/**
+ * Lex a label starting at `start` up to the closing delimiter
+ */
+function lexLabel(rest: string, start: number, close: string): Omit<ShapeToken, 'shape'> | null {
+  const quoted = rest.slice(start).match(/^\s*"([^"]*)"\s*/);
+  if (quoted && rest.startsWith(close, start + quoted[0].length)) {
+    return { text: quoted[1], quoted: true, length: start + quoted[0].length + close.length };
+  }
 
-    const id = match[1];
-    const rest = text.slice(match[0].length);
+  const stack: string[] = [];
+  for (let i = start; i < rest.length; i++) {
+    const char = rest[i];
+    if (stack.length === 0 && rest.startsWith(close, i)) {
+      return { text: rest.slice(start, i).trim(), quoted: false, length: i + close.length };
+    }
+    if (BRACKET_PAIRS[char]) {
+      stack.push(BRACKET_PAIRS[char]);
+    } else if (char === stack[stack.length - 1]) {
+      stack.pop();
+    }
+  }
 
-    const shapeMatch = rest.match(pattern);
-    if (shapeMatch) {
-      return {
-        id,
-        label: shapeMatch[1].trim(),
-        shape,
-      };
+  return null;
+}
+
+/**
+ * Lex the Mermaid v11 shape object: `@{ shape: doc, label: "Report" }`.
+ * Unknown shape names fall back to a rectangle; other keys are ignored.
+ */
+function lexShapeObject(rest: string): ShapeToken | null {
+  const open = rest.match(/^@\{/);
+  if (!open) return null;
+
+  let inQuote = false;
+  let end = -1;
+  for (let i = open[0].length; i < rest.length; i++) {
+    if (rest[i] === '"') inQuote = !inQuote;
+    else if (rest[i] === '}' && !inQuote) {
+      end = i;
+      break;
     }
   }
+  if (end === -1) return null;
+
+  const properties = new Map<string, { value: string; quoted: boolean }>();
+  const propertyPattern = /(\w+)\s*:\s*(?:"([^"]*)"|([^,]*))/g;
+  let match;
+  while ((match = propertyPattern.exec(rest.slice(open[0].length, end))) !== null) {
+    const quoted = match[2] !== undefined;
+    properties.set(match[1], { value: quoted ? match[2] : match[3].trim(), quoted });
+  }
+
+  const label = properties.get('label');
+  return {
+    shape: SHAPE_NAMES[properties.get('shape')?.value.toLowerCase() ?? ''] ?? 'rectangle',
+    text: label?.value ?? '',
+    quoted: label?.quoted ?? false,
+    length: end + 1,
+  };
+}
 
-  // Check for plain node ID without shape
-  const plainMatch = text.match(/^([A-Za-z_][A-Za-z0-9_]*)$/);
-  if (plainMatch) {
+/**
+ * Read a link (with optional label) starting at `start`.
+ * Supports every Mermaid link form, e.g. `-->`, `---`, `-.->`, `==>`, `<-->`,
+ * `--o`, `--x`, `~~~`, longer links like `---->`, `-->|label|` and `-- label -->`.
+ */
+function readLink(text: string, start: number): { link: RawLink; end: number } | null {
+  const leading = text.slice(start).match(/^\s*/)![0];
+  const rest = text.slice(start + leading.length);
+
+  const tokenMatch = rest.match(LINK_TOKEN);
+  const token = tokenMatch && parseLinkToken(tokenMatch[1], tokenMatch[2], tokenMatch[3]);
+  if (tokenMatch && token) {
+    const labelMatch = rest.slice(tokenMatch[0].length).match(/^\s*(?:\|([^|]*)\|)?\s*/)!;
     return {
-      id: plainMatch[1],
-      label: plainMatch[1],
-      shape: 'rectangle',
+      link: { ...token, label: cleanEdgeLabel(labelMatch[1]) },
+      end: start + leading.length + tokenMatch[0].length + labelMatch[0].length,
     };
   }
 
+  const textMatch = rest.match(TEXT_LINK);
+  if (textMatch) {
+    const [matched, startHead, open, label, close] = textMatch;
+    // The closing part must continue the opening stroke; `-. x .->` becomes `-.->`
+    const closeMatch = close[0] === (open === '-.' ? '.' : open[0])
+      ? (open === '-.' ? `-${close}` : close).match(LINK_TOKEN)
+      : null;
+    const token = closeMatch && parseLinkToken(startHead, closeMatch[2], closeMatch[3]);
+    if (token) {
+      const trailing = rest.slice(matched.length).match(/^\s*/)![0];
+      return {
+        link: { ...token, label: cleanEdgeLabel(label) },
+        end: start + leading.length + matched.length + trailing.length,
+      };
+    }
+  }
+
   return null;
 }
 
-function parseEdgeLine(line: string): { sourceNode: RawNode | null; targetNode: RawNode | null; edge: RawEdge } | null {
-  // Match patterns like: A[Label] --> B[Label] or A --> B
-  const edgeMatch = line.match(
-    /^([A-Za-z_][A-Za-z0-9_]*)(\s*(?:\[.*?\]|\(.*?\)|\{.*?\})?)?\s*(-->|---)(?:\|(.+?)\|)?\s*([A-Za-z_][A-Za-z0-9_]*)(\s*(?:\[.*?\]|\(.*?\)|\{.*?\})?)?$/
-  );
+/**
+ * Describe a link token's stroke, arrowheads and rank span.
+ * Returns null for invalid tokens such as `--` without an arrowhead.
+ */
+function parseLinkToken(startHead: string, body: string, endHead: string): RawLink | null {
+  const arrow = ARROW_PATTERNS.find(a => a.pattern.test(body));
+  if (!arrow) return null;
 
-  if (!edgeMatch) return null;
+  const length = arrow.length(body, endHead !== '');
+  if (length < 1) return null;
 
-  const [, sourceId, sourceShape, , edgeLabel, targetId, targetShape] = edgeMatch;
+  return {
+    lineStyle: arrow.lineStyle,
+    weight: arrow.weight,
+    startArrowhead: ARROWHEADS[startHead],
+    endArrowhead: ARROWHEADS[endHead],
+    length,
+  };
+}
 
-  const sourceNode = sourceShape
-    ? parseNodeDefinition(sourceId + sourceShape)
-    : { id: sourceId, label: sourceId, shape: 'rectangle' as const };
+function cleanEdgeLabel(label: string | undefined): string | undefined {
+  const trimmed = label?.trim();
+  if (!trimmed) return undefined;
 
-  const targetNode = targetShape
-    ? parseNodeDefinition(targetId + targetShape)
-    : { id: targetId, label: targetId, shape: 'rectangle' as const };
+  const quoted = trimmed.match(/^"(.*)"$/);
+  return decodeLabel(quoted ? quoted[1] : trimmed, quoted !== null).text.trim() || undefined;
+}
 
+/**
+ * Build a node from its id and lexed shape, decoding the label text
+ */
+function parseNodeDefinition(id: string, token: ShapeToken): RawNode {
+  // `A@{ shape: doc }` without a label shows the id, like a bare node
+  const { text, bold } = token.text ? decodeLabel(token.text, token.quoted) : { text: id, bold: false };
   return {
-    sourceNode,
-    targetNode,
-    edge: {
-      source: sourceId,
-      target: targetId,
-      label: edgeLabel?.trim(),
-    },
+    id,
+    ...extractWikiLinks(text),
+    shape: token.shape,
+    bold,
   };
 }
@@ -0,0 +1,101 @@
+// Obsidian wiki-links: `[[Note]]` or `[[Note|Alias]]`
+const WIKI_LINK = /\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g;
+
+export interface LabelText {
+  label: string; // Display text
+  rawLabel?: string; // Text with wiki-links intact, when it differs from `label`
+  link?: string; // First wiki-link, e.g. `[[Payments Service]]`
+}
+
+/**
+ * Split a label into display text and its first wiki-link.
+ * `[[Payments Service]]` displays as "Payments Service", `[[Note|Alias]]` as "Alias".
+ */
+export function extractWikiLinks(text: string): LabelText {
+  const first = text.match(new RegExp(WIKI_LINK.source));
+  if (!first) {
+    return { label: text };
+  }
+
+  return {
+    label: text.replace(WIKI_LINK, (_, target: string, alias?: string) => (alias ?? target).trim()),
+    rawLabel: text,
+    link: first[0],
+  };
+}
+
+/**
+ * Check if a link points to an Obsidian note rather than a URL
+ */
+export function isWikiLink(link: string): boolean {
+  return link.startsWith('[[') && link.endsWith(']]');
+}
+
+// Named entity codes accepted in Mermaid labels (`#quot;`)
+const NAMED_ENTITIES: Record<string, string> = {
+  quot: '"',
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  apos: "'",
+  nbsp: ' ',
+  num: '#',
+  semi: ';',
+  colon: ':',
+  lpar: '(',
+  rpar: ')',
+  lsqb: '[',
+  rsqb: ']',
+  lbrace: '{',
+  rbrace: '}',
+  vert: '|',
+};
+
+export interface DecodedLabel {
+  text: string;
+  bold: boolean; // Whole label is markdown bold, e.g. "`**Checkout**`"
+}
+
+/**
+ * Decode a label as written in Mermaid source into display text.
+ *
+ * - Entity codes: `#quot;`, `#9829;`, `#x2665;`
+ * - `<br>`, `<br/>` and `<br />` become line breaks
+ * - Markdown strings (quoted and wrapped in backticks) lose their `**bold**`
+ *   and `*italic*` markers; Excalidraw cannot style part of a text element
+ */
+export function decodeLabel(raw: string, quoted: boolean): DecodedLabel {
+  let text = raw;
+  let bold = false;
+
+  const markdown = quoted ? text.match(/^`([\s\S]*)`$/) : null;
+  if (markdown) {
+    text = markdown[1];
+    bold = /^(\*\*|__)[^*_]+\1$/.test(text.trim());
+    // Underscores only mark emphasis at word boundaries, so `my_var_name` keeps them
+    text = text
+      .replace(/\*\*(.+?)\*\*/g, '$1')
+      .replace(/(?<!\w)__(.+?)__(?!\w)/g, '$1')
+      .replace(/\*(.+?)\*/g, '$1')
+      .replace(/(?<!\w)_(.+?)_(?!\w)/g, '$1');
+  }
+
+  text = text
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/#(\w+);/g, (entity, code: string) => decodeEntity(code) ?? entity);
+
+  return {
+    text: text.split('\n').map(line => line.trim()).join('\n'),
+    bold,
+  };
+}
+
+function decodeEntity(code: string): string | undefined {
+  if (/^\d+$/.test(code)) {
+    return String.fromCodePoint(parseInt(code, 10));
+  }
+  if (/^x[0-9a-f]+$/i.test(code)) {
+    return String.fromCodePoint(parseInt(code.slice(1), 16));
+  }
+  return NAMED_ENTITIES[code.toLowerCase()];
+}
@@ -1,5 +1,17 @@
-import type { ParsedDiagram, ParsedNode, ParsedEdge, StyleType } from '../types/index.js';
+import type {
+  ParsedDiagram,
+  ParsedNode,
+  ParsedEdge,
+  StyleType,
+  SequenceEvent,
+  SequenceFragment,
+  SequenceBox,
+  FragmentKind,
+  NotePlacement,
+  EdgeArrowhead,
+} from '../types/index.js';
 import { parseExcaliDirective } from './directive.js';
+import { decodeLabel } from './label.js';
 
 interface SequenceParticipant {
   id: string;
@@ -12,9 +24,38 @@ interface SequenceMessage {
   from: string;
   to: string;
   label: string;
-  type: 'solid' | 'dashed' | 'solidOpen' | 'dashedOpen';
+  type: 'solid' | 'dashed';
+  head?: EdgeArrowhead; // None for `->` and `-->`
+  bidirectional?: boolean; // `<<->>`
 }
 
+// Arrow endings: `->>` filled, `-x` cross, `-)` open async, `->` none
+const MESSAGE_HEADS: Record<string, EdgeArrowhead | undefined> = {
+  '>>': 'triangle',
+  'x': 'cross',
+  ')': 'arrow',
+  '>': undefined,
+};
+
+// CSS named colors, which may start a `box` heading
+const CSS_COLOR_NAMES = new Set((
+  'aliceblue antiquewhite aqua aquamarine azure beige bisque black blanchedalmond blue blueviolet brown ' +
+  'burlywood cadetblue chartreuse chocolate coral cornflowerblue cornsilk crimson cyan darkblue darkcyan ' +
+  'darkgoldenrod darkgray darkgreen darkgrey darkkhaki darkmagenta darkolivegreen darkorange darkorchid ' +
+  'darkred darksalmon darkseagreen darkslateblue darkslategray darkslategrey darkturquoise darkviolet ' +
+  'deeppink deepskyblue dimgray dimgrey dodgerblue firebrick floralwhite forestgreen fuchsia gainsboro ' +
+  'ghostwhite gold goldenrod gray green greenyellow grey honeydew hotpink indianred indigo ivory khaki ' +
+  'lavender lavenderblush lawngreen lemonchiffon lightblue lightcoral lightcyan lightgoldenrodyellow ' +
+  'lightgray lightgreen lightgrey lightpink lightsalmon lightseagreen lightskyblue lightslategray ' +
+  'lightslategrey lightsteelblue lightyellow lime limegreen linen magenta maroon mediumaquamarine ' +
+  'mediumblue mediumorchid mediumpurple mediumseagreen mediumslateblue mediumspringgreen mediumturquoise ' +
+  'mediumvioletred midnightblue mintcream mistyrose moccasin navajowhite navy oldlace olive olivedrab ' +
+  'orange orangered orchid palegoldenrod palegreen paleturquoise palevioletred papayawhip peachpuff peru ' +
+  'pink plum powderblue purple rebeccapurple red rosybrown royalblue saddlebrown salmon sandybrown ' +
+  'seagreen seashell sienna silver skyblue slateblue slategray slategrey snow springgreen steelblue tan ' +
+  'teal thistle tomato turquoise violet wheat white whitesmoke yellow yellowgreen transparent'
+).split(' '));
+
 /**
  * Parse a sequence diagram definition into structured data
  */
@@ -25,56 +66,186 @@ export function parseSequenceDiagram(mermaidSource: string): ParsedDiagram {
   const participants: SequenceParticipant[] = [];
   const messages: SequenceMessage[] = [];
   const participantOrder: string[] = [];
+  const events: SequenceEvent[] = [];
+  const fragments: SequenceFragment[] = [];
+  const openFragments: number[] = [];
+  const boxes: SequenceBox[] = [];
+  let openBox: SequenceBox | undefined;
+  // Participants waiting for the message that creates or destroys them
+  const pendingCreates = new Set<string>();
+  const pendingDestroys = new Set<string>();
+  // Next message number while `autonumber` is on
+  let numbering: { next: number; step: number } | undefined;
+
+  const addImplicitParticipant = (id: string) => {
+    if (!participantOrder.includes(id)) {
+      participantOrder.push(id);
+      participants.push({ id, label: id, type: 'participant' });
+    }
+  };
 
   for (const line of lines) {
     // Skip header
     if (line.startsWith('sequenceDiagram')) continue;
 
-    // Parse participant/actor declarations
-    const participantMatch = line.match(/^(participant|actor)\s+(\w+)(?:\s+as\s+(.+))?$/);
+    // Parse participant/actor declarations, optionally created mid-diagram and with a quoted alias
+    const participantMatch = line.match(/^(create\s+)?(participant|actor)\s+(\w+)(?:\s+as\s+(.+))?$/);
     if (participantMatch) {
-      const [, type, id, alias] = participantMatch;
+      const [, create, type, id, rawAlias] = participantMatch;
+      const alias = rawAlias?.trim().replace(/^"(.*)"$/, '$1');
       participants.push({
         id,
-        alias: alias?.trim(),
-        label: alias?.trim() || id,
+        alias,
+        label: alias || id,
         type: type as 'participant' | 'actor',
       });
       if (!participantOrder.includes(id)) {
         participantOrder.push(id);
       }
+      if (create) pendingCreates.add(id);
+      openBox?.participants.push(id);
+      continue;
+    }
+
+    // Participant groups: box [color] [label] ... end
+    const boxMatch = line.match(/^box(?:\s+(.*))?$/);
+    if (boxMatch) {
+      openBox = { ...parseBoxHeading(boxMatch[1]?.trim() ?? ''), participants: [] };
+      boxes.push(openBox);
+      continue;
+    }
+
+    // destroy X: the next message to or from X ends its lifeline
+    const destroyMatch = line.match(/^destroy\s+(\w+)$/);
+    if (destroyMatch) {
+      addImplicitParticipant(destroyMatch[1]);
+      pendingDestroys.add(destroyMatch[1]);
+      continue;
+    }
+
+    // Numbered messages: autonumber, autonumber <start> [<step>], autonumber off
+    const autonumberMatch = line.match(/^autonumber(?:\s+(off|\d+)(?:\s+(\d+))?)?$/);
+    if (autonumberMatch) {
+      const [, start, step] = autonumberMatch;
+      numbering = start === 'off'
+        ? undefined
+        : { next: start ? Number(start) : 1, step: step ? Number(step) : 1 };
       continue;
     }
 
-    // Parse messages: A->>B: Message or A-->>B: Message
-    const messageMatch = line.match(/^(\w+)\s*(--?>>?[+-]?|--?>[+-]?|--?x[+-]?)\s*(\w+)\s*:\s*(.*)$/);
+    // Parse messages: A->>B, A-->>B, A->B, A-xB, A-)B, A<<->>B, each with an optional +/- suffix
+    const messageMatch = line.match(/^(\w+)\s*(<<)?(--?)(>>|>|x|\))([+-]?)\s*(\w+)\s*:\s*(.*)$/);
     if (messageMatch) {
-      const [, from, arrow, to, label] = messageMatch;
+      const [, from, bidirectional, stroke, head, activation, to, label] = messageMatch;
+      // `<<` only pairs with a `>>` head
+      if (bidirectional && head !== '>>') continue;
 
       // Add implicit participants
-      if (!participantOrder.includes(from)) {
-        participantOrder.push(from);
-        participants.push({ id: from, label: from, type: 'participant' });
-      }
-      if (!participantOrder.includes(to)) {
-        participantOrder.push(to);
-        participants.push({ id: to, label: to, type: 'participant' });
-      }
-
-      const isDashed = arrow.includes('--');
-      const isOpen = !arrow.includes('>>');
+      addImplicitParticipant(from);
+      addImplicitParticipant(to);
 
       messages.push({
         from,
         to,
         label: label.trim(),
-        type: isDashed ? (isOpen ? 'dashedOpen' : 'dashed') : (isOpen ? 'solidOpen' : 'solid'),
+        type: stroke === '--' ? 'dashed' : 'solid',
+        head: MESSAGE_HEADS[head],
+        bidirectional: Boolean(bidirectional),
+      });
+      events.push({
+        kind: 'message',
+        edge: messages.length - 1,
+        ...(activation === '+' && { activateTarget: true }),
+        ...(activation === '-' && { deactivateSource: true }),
+        ...(numbering && { number: numbering.next }),
+        ...(pendingCreates.delete(to) && { createTarget: true }),
+        ...(pendingDestroys.delete(from) && { destroySource: true }),
+        ...(pendingDestroys.delete(to) && { destroyTarget: true }),
+      });
+      if (numbering) numbering.next += numbering.step;
+      continue;
+    }
+
+    // Parse activations: activate A, deactivate A
+    const activationMatch = line.match(/^(activate|deactivate)\s+(\w+)$/);
+    if (activationMatch) {
+      const [, kind, participant] = activationMatch;
+      addImplicitParticipant(participant);
+
+      // Right after a message to (or from) the participant, this is the same as a `+` (or `-`) suffix
+      const previous = events[events.length - 1];
+      if (previous?.kind === 'message') {
+        const message = messages[previous.edge];
+        if (kind === 'activate' && message.to === participant && !previous.activateTarget) {
+          previous.activateTarget = true;
+          continue;
+        }
+        if (kind === 'deactivate' && message.from === participant && !previous.deactivateSource) {
+          previous.deactivateSource = true;
+          continue;
+        }
+      }
+
+      events.push({ kind: kind as 'activate' | 'deactivate', participant });
+      continue;
+    }
+
+    // Parse notes: Note left of A: text, Note right of A: text, Note over A,B: text
+    const noteMatch = line.match(/^note\s+(left of|right of|over)\s+(\w+)(?:\s*,\s*(\w+))?\s*:\s*(.*)$/i);
+    if (noteMatch) {
+      const [, position, first, second, text] = noteMatch;
+      const placement = position.split(' ')[0].toLowerCase() as NotePlacement;
+      const noteParticipants = placement === 'over' && second ? [first, second] : [first];
+      noteParticipants.forEach(addImplicitParticipant);
+      events.push({
+        kind: 'note',
+        note: { placement, participants: noteParticipants, text: decodeLabel(text.trim(), false).text },
       });
       continue;
     }
 
-    // Parse note declarations (skip for now, could add as annotations)
-    // Parse loop/alt/opt blocks (skip for now)
+    // Parse combined fragments: loop/alt/opt/par/critical/break/rect ... end
+    const fragmentMatch = line.match(/^(loop|alt|opt|par|critical|break|rect)\b\s*(.*)$/);
+    if (fragmentMatch) {
+      const [, kind, rest] = fragmentMatch;
+      const fragment: SequenceFragment = kind === 'rect'
+        ? { kind, label: '', ...parseBackgroundColor(rest.trim()) }
+        : { kind: kind as FragmentKind, label: decodeLabel(rest.trim(), false).text };
+      if (openFragments.length > 0) {
+        fragment.parent = openFragments[openFragments.length - 1];
+      }
+      fragments.push(fragment);
+      openFragments.push(fragments.length - 1);
+      events.push({ kind: 'fragmentStart', fragment: fragments.length - 1 });
+      continue;
+    }
+
+    // Sections: else (alt), and (par), option (critical)
+    const sectionMatch = line.match(/^(else|and|option)\b\s*(.*)$/);
+    if (sectionMatch && openFragments.length > 0) {
+      events.push({
+        kind: 'fragmentSection',
+        fragment: openFragments[openFragments.length - 1],
+        label: decodeLabel(sectionMatch[2].trim(), false).text,
+      });
+      continue;
+    }
+
+    if (line === 'end' && openFragments.length > 0) {
+      events.push({ kind: 'fragmentEnd', fragment: openFragments.pop()! });
+      continue;
+    }
+
+    // Boxes hold only declarations, so an `end` outside fragments closes the box
+    if (line === 'end' && openBox) {
+      openBox = undefined;
+      continue;
+    }
+  }
+
+  // Close fragments left open at the end of the source
+  while (openFragments.length > 0) {
+    events.push({ kind: 'fragmentEnd', fragment: openFragments.pop()! });
   }
 
   // Convert to ParsedDiagram format
@@ -89,8 +260,10 @@ export function parseSequenceDiagram(mermaidSource: string): ParsedDiagram {
     source: m.from,
     target: m.to,
     label: m.label,
-    arrowType: 'arrow' as const,
-    lineStyle: (m.type === 'dashed' || m.type === 'dashedOpen') ? 'dashed' as const : 'solid' as const,
+    arrowType: !m.head ? 'none' as const : m.bidirectional ? 'both' as const : 'arrow' as const,
+    lineStyle: m.type,
+    ...(m.bidirectional && { startArrowhead: m.head }),
+    ...(m.head && { endArrowhead: m.head }),
   }));
 
   return {
@@ -99,11 +272,47 @@ export function parseSequenceDiagram(mermaidSource: string): ParsedDiagram {
     nodes,
     edges,
     subgraphs: [],
+    sequence: { events, fragments, boxes },
     directive,
     rawMermaid: mermaidSource,
   };
 }
 
+/**
+ * Color and label of a `box` line; the first word is the color only when it is one,
+ * as in `box Aqua Backend`, `box rgb(33, 66, 99) Backend` or just `box Backend`
+ */
+function parseBoxHeading(heading: string): Omit<SequenceBox, 'participants'> {
+  const match = heading.match(/^(rgba?\([^)]*\)|#[0-9a-f]{3,8}\b|\w+)\s*(.*)$/i);
+  if (!match) {
+    return { label: '' };
+  }
+
+  const [, color, rest] = match;
+  const isColor = /^(rgba?\(|#)/i.test(color) || CSS_COLOR_NAMES.has(color.toLowerCase());
+  if (!isColor) {
+    return { label: decodeLabel(heading, false).text };
+  }
+  return { label: decodeLabel(rest.trim(), false).text, ...parseBackgroundColor(color) };
+}
+
+/**
+ * Background of `rect`/`box rgb(r, g, b)` or `rgba(r, g, b, a)` as hex plus opacity;
+ * other CSS colors are passed through
+ */
+function parseBackgroundColor(color: string): Pick<SequenceFragment, 'color' | 'opacity'> {
+  const rgb = color.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(?:,\s*([\d.]+)\s*)?\)$/i);
+  if (!rgb) {
+    return color ? { color } : {};
+  }
+
+  const hex = rgb.slice(1, 4)
+    .map(channel => Math.min(255, Number(channel)).toString(16).padStart(2, '0'))
+    .join('');
+  const alpha = rgb[4] === undefined ? 1 : Math.min(1, Number(rgb[4]));
+  return alpha < 1 ? { color: `#${hex}`, opacity: Math.round(alpha * 100) } : { color: `#${hex}` };
+}
+
 function inferParticipantStyle(label: string): StyleType | undefined {
   const lower = label.toLowerCase();
   if (lower.includes('user') || lower.includes('client') || lower.includes('actor')) return 'user';
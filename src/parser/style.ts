@@ -0,0 +1,75 @@
+import type { ElementStyle } from '../types/index.js';
+
+/**
+ * Parse Mermaid CSS-like style properties into Excalidraw style overrides
+ *
+ * Supports: fill, stroke, stroke-width, stroke-dasharray, color
+ * e.g. `fill:#f9f,stroke:#333,stroke-width:4px,stroke-dasharray: 5 5`
+ * Unknown properties are ignored.
+ */
+export function parseStyleProperties(text: string): ElementStyle {
+  const style: ElementStyle = {};
+
+  for (const property of splitProperties(text)) {
+    const separator = property.indexOf(':');
+    if (separator === -1) continue;
+
+    const name = property.slice(0, separator).trim().toLowerCase();
+    const value = property.slice(separator + 1).trim().replace(/;$/, '').replace(/\s*!important$/, '');
+    if (!value) continue;
+
+    switch (name) {
+      case 'fill':
+        style.backgroundColor = value;
+        break;
+      case 'stroke':
+        style.strokeColor = value;
+        break;
+      case 'color':
+        style.fontColor = value;
+        break;
+      case 'stroke-width': {
+        const width = parseFloat(value);
+        if (!Number.isNaN(width)) style.strokeWidth = width;
+        break;
+      }
+      case 'stroke-dasharray':
+        style.strokeStyle = parseDashArray(value);
+        break;
+    }
+  }
+
+  return style;
+}
+
+/**
+ * Split on commas that are not inside parentheses, so `rgb(1, 2, 3)` stays intact
+ */
+function splitProperties(text: string): string[] {
+  const properties: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of text) {
+    if (char === '(') depth++;
+    else if (char === ')') depth = Math.max(0, depth - 1);
+    else if (char === ',' && depth === 0) {
+      properties.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  properties.push(current);
+  return properties.filter(p => p.trim());
+}
+
+/**
+ * Map a dash array to the closest Excalidraw stroke style: short dashes read as dotted
+ */
+function parseDashArray(value: string): ElementStyle['strokeStyle'] {
+  const dashes = value.split(/[\s,]+/).map(v => parseFloat(v)).filter(v => !Number.isNaN(v));
+  if (dashes.length === 0 || dashes.every(d => d === 0)) return 'solid';
+  return dashes[0] <= 2 ? 'dotted' : 'dashed';
+}
@@ -24,36 +24,200 @@ export interface StyleColors {
 export interface ExcaliDirective {
   theme?: string;
   styles: Record<string, StyleType>;
+  layout?: LayoutEngine;
+  spacing?: LayoutSpacing;
 }
 
+// Per-element overrides from Mermaid `classDef` / `class` / `style` / `:::` / `linkStyle`
+export interface ElementStyle {
+  backgroundColor?: string;
+  strokeColor?: string;
+  strokeWidth?: number;
+  strokeStyle?: 'solid' | 'dashed' | 'dotted';
+  fontColor?: string;
+}
+
+// Node shapes: Mermaid's classic delimiters plus the v11 `@{ shape: ... }` catalogue
+export type NodeShape =
+  | 'rectangle'
+  | 'rounded'
+  | 'stadium'
+  | 'subroutine'
+  | 'cylinder'
+  | 'circle'
+  | 'double-circle'
+  | 'asymmetric'
+  | 'diamond'
+  | 'hexagon'
+  | 'lean-right'
+  | 'lean-left'
+  | 'trapezoid'
+  | 'inv-trapezoid'
+  | 'ellipse'
+  | 'text'
+  | 'document'
+  | 'lined-document'
+  | 'documents'
+  | 'tagged-document'
+  | 'notched-rectangle'
+  | 'lined-rectangle'
+  | 'divided-rectangle'
+  | 'stacked-rectangle'
+  | 'tagged-rectangle'
+  | 'window-pane'
+  | 'sloped-rectangle'
+  | 'bow-tie-rectangle'
+  | 'notched-pentagon'
+  | 'delay'
+  | 'curved-trapezoid'
+  | 'flag'
+  | 'horizontal-cylinder'
+  | 'lined-cylinder'
+  | 'small-circle'
+  | 'framed-circle'
+  | 'filled-circle'
+  | 'crossed-circle'
+  | 'triangle'
+  | 'flipped-triangle'
+  | 'hourglass'
+  | 'fork'
+  | 'bolt'
+  | 'brace-left'
+  | 'brace-right'
+  | 'braces';
+
 export interface ParsedNode {
   id: string;
   label: string;
-  shape: 'rectangle' | 'cylinder' | 'stadium' | 'hexagon' | 'ellipse' | 'diamond';
+  shape: NodeShape;
   styleType?: StyleType;
+  style?: ElementStyle;
+  rawLabel?: string; // Label with Obsidian `[[wiki-links]]` intact, when it differs from `label`
+  link?: string; // URL from `click`, or a `[[wiki-link]]` from the label
+  bold?: boolean; // Whole label is a markdown bold string
 }
 
+// Arrowhead shapes from Mermaid link syntax: `-->`, `--o`, `--x`, and the
+// filled head of sequence messages (`->>`), where `arrow` is the open async head (`-)`)
+export type EdgeArrowhead = 'arrow' | 'triangle' | 'circle' | 'cross';
+
+// Stroke weight from Mermaid link syntax: `-->`, `==>`, `~~~`
+export type EdgeWeight = 'normal' | 'thick' | 'invisible';
+
 export interface ParsedEdge {
   source: string;
   target: string;
   label?: string;
   arrowType: 'arrow' | 'none' | 'both';
-  lineStyle?: 'solid' | 'dashed';
+  lineStyle?: 'solid' | 'dashed' | 'dotted';
+  startArrowhead?: EdgeArrowhead; // Defaults to 'arrow' when arrowType is 'both'
+  endArrowhead?: EdgeArrowhead; // Defaults to 'arrow' unless arrowType is 'none'
+  weight?: EdgeWeight;
+  minLength?: number; // Rank span, 1 = adjacent ranks (`---->` spans more)
+  style?: ElementStyle; // From `linkStyle`
 }
 
 export interface ParsedSubgraph {
   id: string;
   label: string;
-  nodes: string[];
+  nodes: string[]; // Direct members; nodes of nested subgraphs are listed there
+  parent?: string;
+  children: string[]; // Ids of nested subgraphs
+  direction?: Direction; // From a `direction LR` statement inside the subgraph
   styleType?: StyleType;
 }
 
+export type Direction = 'TD' | 'TB' | 'LR' | 'RL' | 'BT';
+
+/**
+ * How subgraphs are emitted: native Excalidraw frames (nested subgraphs become
+ * groups inside their top-level frame, since frames don't nest) or grouped
+ * rectangles with a label
+ */
+export type SubgraphMode = 'frame' | 'group';
+
+/**
+ * How edges are drawn: orthogonal elbow arrows routed around nodes, the same
+ * routes with rounded corners, or straight border-to-border lines
+ */
+export type EdgeRouting = 'orthogonal' | 'rounded' | 'straight';
+
+/**
+ * Node placement: layered ranks along the flow direction, force-directed,
+ * an aligned grid, a radial tree around the roots, or a single circle.
+ * Sequence diagrams always keep their timeline layout.
+ */
+export type LayoutEngine = 'layered' | 'force' | 'grid' | 'radial' | 'circular';
+
+// Spacing overrides in pixels; unset values keep the per-diagram defaults
+export interface LayoutSpacing {
+  nodeGap?: number; // Between neighbouring nodes
+  rankGap?: number; // Between ranks, rings or grid rows (message spacing in sequence diagrams)
+  subgraphPadding?: number; // Between a subgraph's border and its contents
+}
+
+// Where a sequence note sits: beside one participant, or over one or two
+export type NotePlacement = 'left' | 'right' | 'over';
+
+export interface SequenceNote {
+  placement: NotePlacement;
+  participants: string[]; // One, or the two ends of `Note over A,B`
+  text: string;
+}
+
+// Combined fragments of a sequence diagram; `rect` is a plain highlight
+export type FragmentKind = 'loop' | 'alt' | 'opt' | 'par' | 'critical' | 'break' | 'rect';
+
+export interface SequenceFragment {
+  kind: FragmentKind;
+  label: string; // Condition or title after the keyword
+  parent?: number; // Index of the enclosing fragment
+  color?: string; // Background of `rect rgb(...)`, as hex
+  opacity?: number; // 0-100, from `rect rgba(...)`
+}
+
+// One step of a sequence diagram; messages refer to `ParsedDiagram.edges` and
+// fragment markers to `SequenceModel.fragments` by index
+export type SequenceEvent =
+  | {
+      kind: 'message';
+      edge: number;
+      activateTarget?: boolean; // `+` suffix
+      deactivateSource?: boolean; // `-` suffix
+      number?: number; // Set while `autonumber` is on
+      createTarget?: boolean; // First message to a `create participant`, which appears here
+      destroySource?: boolean; // The message ends a participant after `destroy`
+      destroyTarget?: boolean;
+    }
+  | { kind: 'note'; note: SequenceNote }
+  | { kind: 'activate'; participant: string }
+  | { kind: 'deactivate'; participant: string }
+  | { kind: 'fragmentStart'; fragment: number }
+  | { kind: 'fragmentSection'; fragment: number; label: string } // `else`, `and`, `option`
+  | { kind: 'fragmentEnd'; fragment: number };
+
+// `box Color Label ... end` around participant declarations
+export interface SequenceBox {
+  label: string;
+  color?: string; // As hex for `rgb(...)`, otherwise the CSS color as written
+  opacity?: number; // 0-100, from `rgba(...)`
+  participants: string[];
+}
+
+// Sequence diagram timeline, in source order
+export interface SequenceModel {
+  events: SequenceEvent[];
+  fragments: SequenceFragment[];
+  boxes: SequenceBox[];
+}
+
 export interface ParsedDiagram {
   type: 'flowchart' | 'sequence' | 'er' | 'class';
-  direction: 'TD' | 'TB' | 'LR' | 'RL' | 'BT';
+  direction: Direction;
   nodes: ParsedNode[];
   edges: ParsedEdge[];
   subgraphs: ParsedSubgraph[];
+  sequence?: SequenceModel; // Sequence diagrams only
   directive: ExcaliDirective;
   rawMermaid: string;
 }
@@ -61,7 +225,7 @@ export interface ParsedDiagram {
 // Excalidraw element types
 export interface ExcalidrawElement {
   id: string;
-  type: 'rectangle' | 'ellipse' | 'arrow' | 'line' | 'text';
+  type: 'rectangle' | 'ellipse' | 'diamond' | 'arrow' | 'line' | 'text' | 'frame';
   x: number;
   y: number;
   width: number;
@@ -75,7 +239,7 @@ export interface ExcalidrawElement {
   roughness: number;
   opacity: number;
   groupIds: string[];
-  frameId: null;
+  frameId: string | null;
   index: string;
   roundness: { type: number } | null;
   seed: number;
@@ -84,35 +248,44 @@ export interface ExcalidrawElement {
   isDeleted: boolean;
   boundElements: Array<{ id: string; type: 'arrow' | 'text' }>;
   updated: number;
-  link: null;
+  link: string | null;
   locked: boolean;
+  // Frame-specific
+  name?: string | null;
   // Text-specific
   text?: string;
   fontSize?: number;
   fontFamily?: number;
   textAlign?: string;
   verticalAlign?: string;
-  containerId?: null;
+  containerId?: string | null;
   originalText?: string;
   autoResize?: boolean;
   baseline?: number;
   lineHeight?: number;
   rawText?: string;
   hasTextLink?: boolean;
-  // Arrow-specific
+  // Line/arrow-specific
+  elbowed?: boolean;
+  fixedSegments?: null;
+  startIsSpecial?: null;
+  endIsSpecial?: null;
   points?: [number, number][];
+  polygon?: boolean;
   lastCommittedPoint?: null;
-  startBinding?: { elementId: string; focus: number; gap: number; fixedPoint: null } | null;
-  endBinding?: { elementId: string; focus: number; gap: number; fixedPoint: null } | null;
-  startArrowhead?: null | 'arrow';
-  endArrowhead?: null | 'arrow';
+  startBinding?: ExcalidrawBinding | null;
+  endBinding?: ExcalidrawBinding | null;
+  startArrowhead?: ExcalidrawArrowhead | null;
+  endArrowhead?: ExcalidrawArrowhead | null;
 }
 
+export type ExcalidrawArrowhead = 'arrow' | 'triangle' | 'dot' | 'bar';
+
 export interface ExcalidrawBinding {
   elementId: string;
   focus: number;
   gap: number;
-  fixedPoint: null;
+  fixedPoint: [number, number] | null; // Attachment point as a fraction of the element's size (elbow arrows)
 }
 
 export interface BoundElement {
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { createConversionContext } from '../src/converter/context.js';
+
+describe('createConversionContext', () => {
+  it('derives the same identity from the same key in every conversion', () => {
+    const first = createConversionContext().slot('node:A');
+    const second = createConversionContext().slot('node:A');
+    expect(second).toEqual(first);
+    expect(first.id).toMatch(/^[A-Za-z0-9]{8}$/);
+  });
+
+  it('gives repeated keys distinct identities', () => {
+    const ctx = createConversionContext();
+    const a = ctx.slot('edge:A->B');
+    const b = ctx.slot('edge:A->B');
+    expect(b.id).not.toBe(a.id);
+    expect(b.seed).not.toBe(a.seed);
+  });
+
+  it('never hands out the same id twice', () => {
+    const ctx = createConversionContext();
+    const ids = new Set<string>();
+    for (let i = 0; i < 5000; i++) {
+      ids.add(ctx.slot(`node:N${i}`).id);
+      ids.add(ctx.id(`group:${i}`));
+    }
+    expect(ids.size).toBe(10000);
+  });
+
+  it('stamps elements with a fixed time unless one is given', () => {
+    expect(createConversionContext().slot('node:A').updated).toBe(1);
+    expect(createConversionContext({ timestamp: 1700000000000 }).slot('node:A').updated).toBe(1700000000000);
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, expect, it } from 'vitest';
+import { parseFlowchart } from '../src/parser/flowchart.js';
+import { parseERDiagram } from '../src/parser/er.js';
+import { convertToExcalidraw } from '../src/converter/index.js';
+import { FONT_FAMILIES, measureText } from '../src/converter/text.js';
+import type { ExcalidrawElement } from '../src/types/index.js';
+
+function textOf(elements: ExcalidrawElement[], text: string): ExcalidrawElement | undefined {
+  return elements.find(element => element.type === 'text' && element.text === text);
+}
+
+describe('label alignment', () => {
+  it('centres multi-line flowchart labels', () => {
+    const { elements } = convertToExcalidraw(parseFlowchart('flowchart LR\nA[First<br>Second] --> B'));
+    expect(textOf(elements, 'First\nSecond')?.textAlign).toBe('center');
+  });
+
+  it('left-aligns ER entity attribute blocks', () => {
+    const { elements } = convertToExcalidraw(parseERDiagram(`erDiagram
+      USER {
+        string name
+        int age
+      }`));
+    const entity = elements.find(element => element.type === 'text' && element.text?.startsWith('USER'));
+    expect(entity?.textAlign).toBe('left');
+  });
+});
+
+describe('node shapes', () => {
+  it('draws decisions as native diamonds that arrows bind to', () => {
+    const { elements } = convertToExcalidraw(parseFlowchart('flowchart LR\nA{Ready?} --> B'));
+    const diamond = elements.find(element => element.type === 'diamond');
+    const arrow = elements.find(element => element.type === 'arrow');
+    expect(diamond).toBeDefined();
+    expect(arrow?.startBinding?.elementId).toBe(diamond?.id);
+    expect(diamond?.boundElements).toContainEqual({ id: arrow?.id, type: 'arrow' });
+  });
+
+  it('draws stadiums and hexagons as closed outlines', () => {
+    for (const declaration of ['A([Pill])', 'A{{Prepare}}']) {
+      const { elements } = convertToExcalidraw(parseFlowchart(`flowchart LR\n${declaration}`));
+      const outline = elements.find(element => element.type === 'line');
+      const points = outline?.points ?? [];
+      expect(points.length).toBeGreaterThan(3);
+      expect(points[points.length - 1]).toEqual(points[0]);
+    }
+  });
+});
+
+describe('container text', () => {
+  it('binds node labels to their shapes', () => {
+    const { elements } = convertToExcalidraw(parseFlowchart('flowchart LR\nA(Start) --> B{Ready?}'));
+    for (const label of ['Start', 'Ready?']) {
+      const text = textOf(elements, label);
+      const shape = elements.find(element => element.id === text?.containerId);
+      expect(shape).toBeDefined();
+      expect(shape?.boundElements).toContainEqual({ id: text?.id, type: 'text' });
+      expect(text).toMatchObject({ verticalAlign: 'middle', originalText: label });
+    }
+  });
+
+  it('wraps long labels to the width of their container', () => {
+    const label = 'A label long enough that it cannot possibly fit on one line of its box';
+    const { elements } = convertToExcalidraw(parseFlowchart(`flowchart LR\nA[${label}]`));
+    const text = elements.find(element => element.type === 'text')!;
+    const shape = elements.find(element => element.id === text.containerId)!;
+    expect(text.originalText).toBe(label);
+    expect(text.text?.split('\n').length).toBeGreaterThan(1);
+    expect(text.text?.replace(/\n/g, ' ')).toBe(label);
+    expect(text.x).toBeGreaterThanOrEqual(shape.x);
+    expect(text.x + text.width).toBeLessThanOrEqual(shape.x + shape.width);
+  });
+});
+
+describe('edge labels', () => {
+  it('binds labels to their arrows at the middle of the path', () => {
+    const { elements } = convertToExcalidraw(parseFlowchart('flowchart LR\nA -->|yes| B'));
+    const arrow = elements.find(element => element.type === 'arrow')!;
+    const label = textOf(elements, 'yes')!;
+    expect(label.containerId).toBe(arrow.id);
+    expect(arrow.boundElements).toContainEqual({ id: label.id, type: 'text' });
+
+    const points = arrow.points!.map(([x, y]) => [arrow.x + x, arrow.y + y]);
+    const [first, last] = [points[0], points[points.length - 1]];
+    expect(label.x + label.width / 2).toBeCloseTo((first[0] + last[0]) / 2);
+    expect(label.y + label.height / 2).toBeCloseTo((first[1] + last[1]) / 2);
+  });
+});
+
+describe('deterministic output', () => {
+  const sources = [
+    parseFlowchart(`flowchart TD
+      subgraph S
+        A[Start] --> B{Ready?}
+      end
+      B -->|yes| C
+      B -->|no| A
+      A --> C`),
+    parseERDiagram(`erDiagram
+      USER ||--o{ ORDER : places
+      ORDER ||--|{ LINE : contains`),
+  ];
+
+  it.each(sources.map(diagram => [diagram.type, diagram] as const))('converts a %s the same way every time', (_, diagram) => {
+    const first = convertToExcalidraw(diagram);
+    const second = convertToExcalidraw(diagram);
+    expect(second.obsidianContent).toBe(first.obsidianContent);
+    expect(JSON.stringify(second.elements)).toBe(JSON.stringify(first.elements));
+  });
+
+  it('keeps node ids when unrelated nodes are added', () => {
+    const idOf = (source: string, label: string) =>
+      convertToExcalidraw(parseFlowchart(source)).elements.find(element => element.text === label)?.containerId;
+    expect(idOf('flowchart LR\nA[Alpha] --> B', 'Alpha')).toBe(idOf('flowchart LR\nZ --> Y\nA[Alpha] --> B', 'Alpha'));
+  });
+});
+
+describe('z-order', () => {
+  it('stacks every element by fractional index: shapes, then arrows, then labels', () => {
+    const nodes = Array.from({ length: 15 }, (_, i) => `N${i}[Node ${i}]`).join(' --> ');
+    const { elements } = convertToExcalidraw(parseFlowchart(`flowchart LR\n${nodes}`));
+    const indices = elements.map(element => element.index);
+    expect([...indices].sort()).toEqual(indices);
+
+    const highest = (type: string) => elements.filter(element => element.type === type).map(e => e.index).sort().at(-1)!;
+    const lowest = (type: string) => elements.filter(element => element.type === type).map(e => e.index).sort()[0];
+    expect(lowest('arrow') > highest('rectangle')).toBe(true);
+    expect(lowest('text') > highest('arrow')).toBe(true);
+  });
+});
+
+describe('subgraph containers', () => {
+  const source = `flowchart LR
+    subgraph Outer
+      A[Alpha] --> B[Beta]
+      subgraph Inner
+        C[Gamma]
+      end
+    end
+    B --> D[Delta]`;
+
+  function shapeOf(elements: ExcalidrawElement[], label: string): ExcalidrawElement {
+    const text = textOf(elements, label)!;
+    return elements.find(element => element.id === text.containerId)!;
+  }
+
+  it('puts top-level subgraphs in frames that carry their members', () => {
+    const { elements } = convertToExcalidraw(parseFlowchart(source));
+    const frames = elements.filter(element => element.type === 'frame');
+    expect(frames).toHaveLength(1);
+    expect(frames[0].name).toBe('Outer');
+
+    for (const label of ['Alpha', 'Beta', 'Gamma']) {
+      expect(shapeOf(elements, label).frameId).toBe(frames[0].id);
+      expect(textOf(elements, label)?.frameId).toBe(frames[0].id);
+    }
+    expect(shapeOf(elements, 'Delta').frameId).toBeNull();
+  });
+
+  it('groups nested subgraphs inside their frame', () => {
+    const { elements } = convertToExcalidraw(parseFlowchart(source));
+    const gamma = shapeOf(elements, 'Gamma');
+    expect(gamma.groupIds).toHaveLength(1);
+    expect(shapeOf(elements, 'Alpha').groupIds).toEqual([]);
+  });
+
+  it('groups every subgraph when asked to', () => {
+    const { elements } = convertToExcalidraw(parseFlowchart(source), { subgraphs: 'group' });
+    expect(elements.some(element => element.type === 'frame')).toBe(false);
+
+    const alpha = shapeOf(elements, 'Alpha');
+    const gamma = shapeOf(elements, 'Gamma');
+    expect(alpha.groupIds).toHaveLength(1);
+    // Innermost group first, then the enclosing subgraph's
+    expect(gamma.groupIds).toEqual([expect.any(String), alpha.groupIds[0]]);
+    expect(shapeOf(elements, 'Delta').groupIds).toEqual([]);
+  });
+});
+
+describe('edge routing', () => {
+  const source = 'flowchart TD\nA --> B\nA --> C\nB --> D\nC --> D';
+
+  it('draws elbow arrows bound to fixed points by default', () => {
+    const { elements } = convertToExcalidraw(parseFlowchart(source));
+    const arrows = elements.filter(element => element.type === 'arrow');
+    expect(arrows).toHaveLength(4);
+    for (const arrow of arrows) {
+      expect(arrow.elbowed).toBe(true);
+      expect(arrow.startBinding?.fixedPoint).toHaveLength(2);
+      expect(arrow.endBinding?.fixedPoint).toHaveLength(2);
+    }
+  });
+
+  it('draws straight arrows on request', () => {
+    const { elements } = convertToExcalidraw(parseFlowchart(source), { edgeRouting: 'straight' });
+    for (const arrow of elements.filter(element => element.type === 'arrow')) {
+      expect(arrow.elbowed).toBeFalsy();
+      expect(arrow.points).toHaveLength(2);
+    }
+  });
+});
+
+describe('label measurement', () => {
+  it('measures bold labels in the font they are drawn with', () => {
+    const { elements } = convertToExcalidraw(parseFlowchart('flowchart LR\nA["`**Checkout**`"]'));
+    const text = textOf(elements, 'Checkout')!;
+    expect(text.fontFamily).toBe(FONT_FAMILIES.lilitaOne);
+    expect(text.width).toBeCloseTo(measureText('Checkout', { fontFamily: FONT_FAMILIES.lilitaOne }).width);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { hasExcaliDirective, parseExcaliDirective, stripExcaliDirective } from '../src/parser/directive.js';
+
+describe('parseExcaliDirective', () => {
+  it('reads the theme and known style types', () => {
+    expect(parseExcaliDirective('%%{excali: theme: architecture, styles: {A: ui, B: db, C: nonsense}}%%')).toEqual({
+      theme: 'architecture',
+      styles: { A: 'ui', B: 'db' },
+    });
+  });
+
+  it('reads the layout engine and spacing overrides', () => {
+    const directive = parseExcaliDirective(
+      '%%{excali: layout: radial, spacing: {nodeGap: 60, rankGap: 120.5, bogus: 3}}%%\nflowchart LR'
+    );
+    expect(directive.layout).toBe('radial');
+    expect(directive.spacing).toEqual({ nodeGap: 60, rankGap: 120.5 });
+  });
+
+  it('ignores unknown layout engines', () => {
+    expect(parseExcaliDirective('%%{excali: layout: spiral}%%').layout).toBeUndefined();
+  });
+
+  it('returns empty styles without a directive', () => {
+    expect(parseExcaliDirective('flowchart LR\nA --> B')).toEqual({ styles: {} });
+  });
+});
+
+describe('stripExcaliDirective', () => {
+  it('leaves plain Mermaid behind', () => {
+    const source = '%%{excali: styles: {A: ui}}%%\nflowchart LR\nA --> B';
+    expect(hasExcaliDirective(source)).toBe(true);
+    expect(stripExcaliDirective(source)).toBe('flowchart LR\nA --> B');
+    expect(hasExcaliDirective(stripExcaliDirective(source))).toBe(false);
+  });
+});
@@ -0,0 +1,291 @@
+import { describe, expect, it } from 'vitest';
+import { parseFlowchart } from '../src/parser/flowchart.js';
+
+function edgePairs(source: string): string[] {
+  return parseFlowchart(source).edges.map(edge => `${edge.source}->${edge.target}`);
+}
+
+describe('edge statements', () => {
+  it('expands a chain into one edge per link', () => {
+    expect(edgePairs('flowchart TD\nA --> B --> C --> D')).toEqual(['A->B', 'B->C', 'C->D']);
+  });
+
+  it('links every node on one side of & to every node on the other', () => {
+    expect(edgePairs('flowchart TD\nA & B --> C & D')).toEqual(['A->C', 'A->D', 'B->C', 'B->D']);
+  });
+
+  it('fans out within a chain', () => {
+    expect(edgePairs('flowchart TD\nA --> B & C --> D')).toEqual(['A->B', 'A->C', 'B->D', 'C->D']);
+  });
+
+  it('splits statements on semicolons', () => {
+    expect(edgePairs('flowchart TD\nA --> B; B --> C;C --> A')).toEqual(['A->B', 'B->C', 'C->A']);
+  });
+
+  it('keeps node declarations made inside chains', () => {
+    const diagram = parseFlowchart('flowchart TD\nA[Start] --> B[(Store)] --> C{Done?}');
+    expect(diagram.nodes.map(node => [node.id, node.label, node.shape])).toEqual([
+      ['A', 'Start', 'rectangle'],
+      ['B', 'Store', 'cylinder'],
+      ['C', 'Done?', 'diamond'],
+    ]);
+  });
+
+  it('declares each node once however often it is linked', () => {
+    const diagram = parseFlowchart('flowchart TD\nA --> B\nB --> A\nA & B --> C');
+    expect(diagram.nodes.map(node => node.id)).toEqual(['A', 'B', 'C']);
+  });
+});
+
+describe('link forms', () => {
+  function edgeOf(link: string) {
+    return parseFlowchart(`flowchart LR\nA ${link} B`).edges[0];
+  }
+
+  it('reads stroke styles and weights', () => {
+    expect(edgeOf('-->')).toMatchObject({ lineStyle: 'solid', weight: 'normal', arrowType: 'arrow' });
+    expect(edgeOf('-.->')).toMatchObject({ lineStyle: 'dotted', arrowType: 'arrow' });
+    expect(edgeOf('==>')).toMatchObject({ lineStyle: 'solid', weight: 'thick', arrowType: 'arrow' });
+    expect(edgeOf('---')).toMatchObject({ arrowType: 'none' });
+    expect(edgeOf('~~~')).toMatchObject({ weight: 'invisible', arrowType: 'none' });
+  });
+
+  it('reads arrowheads at either end', () => {
+    expect(edgeOf('<-->')).toMatchObject({ arrowType: 'both', startArrowhead: 'arrow', endArrowhead: 'arrow' });
+    expect(edgeOf('--o')).toMatchObject({ arrowType: 'arrow', endArrowhead: 'circle' });
+    expect(edgeOf('--x')).toMatchObject({ arrowType: 'arrow', endArrowhead: 'cross' });
+    expect(edgeOf('o--o')).toMatchObject({ arrowType: 'both', startArrowhead: 'circle', endArrowhead: 'circle' });
+  });
+
+  it('reads labels written inside the link or between pipes', () => {
+    expect(edgeOf('-- yes -->')).toMatchObject({ label: 'yes', arrowType: 'arrow' });
+    expect(edgeOf('-->|no|')).toMatchObject({ label: 'no', arrowType: 'arrow' });
+    expect(edgeOf('-. maybe .->')).toMatchObject({ label: 'maybe', lineStyle: 'dotted' });
+    expect(edgeOf('== sure ==>')).toMatchObject({ label: 'sure', weight: 'thick' });
+  });
+
+  it('turns extra link characters into a longer rank span', () => {
+    expect(edgeOf('-->').minLength).toBe(1);
+    expect(edgeOf('--->').minLength).toBe(2);
+    expect(edgeOf('---->').minLength).toBe(3);
+    expect(edgeOf('-..->').minLength).toBe(2);
+    expect(edgeOf('===>').minLength).toBe(2);
+  });
+
+  it('keeps link forms apart in chains', () => {
+    const edges = parseFlowchart('flowchart LR\nA -.-> B ==> C --o D').edges;
+    expect(edges.map(edge => [edge.lineStyle, edge.weight, edge.endArrowhead])).toEqual([
+      ['dotted', 'normal', 'arrow'],
+      ['solid', 'thick', 'arrow'],
+      ['solid', 'normal', 'circle'],
+    ]);
+  });
+});
+
+describe('subgraphs', () => {
+  const source = `flowchart TD
+    subgraph Outer [Outer group]
+      direction LR
+      A --> B
+      subgraph Inner["Inner group"]
+        C
+      end
+    end
+    subgraph "Free title"
+      D
+    end
+    B --> Inner
+    Outer --> D`;
+
+  it('records the nesting, members and direction of each subgraph', () => {
+    const { subgraphs } = parseFlowchart(source);
+    expect(subgraphs).toEqual([
+      expect.objectContaining({ id: 'Outer', label: 'Outer group', nodes: ['A', 'B'], children: ['Inner'], direction: 'LR' }),
+      expect.objectContaining({ id: 'Inner', label: 'Inner group', nodes: ['C'], parent: 'Outer', children: [] }),
+      expect.objectContaining({ id: 'subGraph2', label: 'Free title', nodes: ['D'], children: [] }),
+    ]);
+  });
+
+  it('treats subgraph ids as edge endpoints rather than nodes', () => {
+    const diagram = parseFlowchart(source);
+    expect(diagram.nodes.map(node => node.id).sort()).toEqual(['A', 'B', 'C', 'D']);
+    expect(edgePairs(source)).toContain('B->Inner');
+    expect(edgePairs(source)).toContain('Outer->D');
+  });
+});
+
+describe('styling statements', () => {
+  function styleOf(source: string, id: string) {
+    return parseFlowchart(source).nodes.find(node => node.id === id)?.style;
+  }
+
+  it('applies classDef styles through class statements and the ::: shorthand', () => {
+    const source = `flowchart LR
+      classDef db fill:#b2f2bb,stroke:#2f9e44
+      classDef loud,warn stroke-width:4px
+      A:::db --> B[Store]:::db
+      C
+      class C loud`;
+    expect(styleOf(source, 'A')).toEqual({ backgroundColor: '#b2f2bb', strokeColor: '#2f9e44' });
+    expect(styleOf(source, 'B')).toEqual({ backgroundColor: '#b2f2bb', strokeColor: '#2f9e44' });
+    expect(styleOf(source, 'C')).toEqual({ strokeWidth: 4 });
+  });
+
+  it('lets a style statement override its classes', () => {
+    const source = `flowchart LR
+      classDef db fill:#b2f2bb,stroke:#2f9e44
+      A:::db
+      style A stroke:#f00,stroke-dasharray: 5 5`;
+    expect(styleOf(source, 'A')).toEqual({
+      backgroundColor: '#b2f2bb',
+      strokeColor: '#f00',
+      strokeStyle: 'dashed',
+    });
+  });
+
+  it('applies the default class to every node', () => {
+    const source = `flowchart LR
+      classDef default fill:#eee
+      classDef db stroke:#2f9e44
+      A --> B:::db`;
+    expect(styleOf(source, 'A')).toEqual({ backgroundColor: '#eee' });
+    expect(styleOf(source, 'B')).toEqual({ backgroundColor: '#eee', strokeColor: '#2f9e44' });
+  });
+
+  it('does not mistake styling statements for nodes', () => {
+    const diagram = parseFlowchart(`flowchart LR
+      A --> B
+      classDef db fill:#fff
+      class A db
+      style B fill:#000`);
+    expect(diagram.nodes.map(node => node.id)).toEqual(['A', 'B']);
+  });
+});
+
+describe('linkStyle', () => {
+  it('styles edges by their index in definition order', () => {
+    const { edges } = parseFlowchart(`flowchart LR
+      A --> B --> C
+      C --> D
+      linkStyle 0,2 stroke:#e03131,stroke-width:3px
+      linkStyle 1 stroke-dasharray: 5 5`);
+    expect(edges.map(edge => edge.style)).toEqual([
+      { strokeColor: '#e03131', strokeWidth: 3 },
+      { strokeStyle: 'dashed' },
+      { strokeColor: '#e03131', strokeWidth: 3 },
+    ]);
+  });
+
+  it('layers indexed styles over linkStyle default', () => {
+    const { edges } = parseFlowchart(`flowchart LR
+      A --> B
+      B --> C
+      linkStyle default stroke:#999
+      linkStyle 1 stroke-width:2px`);
+    expect(edges.map(edge => edge.style)).toEqual([
+      { strokeColor: '#999' },
+      { strokeColor: '#999', strokeWidth: 2 },
+    ]);
+  });
+
+  it('leaves edges without a linkStyle unstyled', () => {
+    const { edges } = parseFlowchart(`flowchart LR
+      A --> B
+      B --> C
+      linkStyle 5 stroke:#000`);
+    expect(edges.map(edge => edge.style)).toEqual([undefined, undefined]);
+  });
+});
+
+describe('links', () => {
+  it('reads click statements as node links', () => {
+    const { nodes } = parseFlowchart(`flowchart LR
+      A --> B --> C
+      click A "https://example.com/a"
+      click B href "https://example.com/b" "Tooltip" _blank
+      click C call notify()`);
+    expect(nodes.map(node => node.link)).toEqual([
+      'https://example.com/a',
+      'https://example.com/b',
+      undefined,
+    ]);
+    expect(nodes.map(node => node.id)).toEqual(['A', 'B', 'C']);
+  });
+
+  it('links nodes whose labels contain wiki-links', () => {
+    const [node] = parseFlowchart('flowchart LR\nA["[[Payments Service]]"]').nodes;
+    expect(node).toMatchObject({
+      label: 'Payments Service',
+      rawLabel: '[[Payments Service]]',
+      link: '[[Payments Service]]',
+    });
+  });
+
+  it('prefers a click link over a wiki-link', () => {
+    const [node] = parseFlowchart(`flowchart LR
+      A["See [[Note]]"]
+      click A "https://example.com"`).nodes;
+    expect(node.link).toBe('https://example.com');
+  });
+});
+
+describe('labels', () => {
+  function labelOf(declaration: string): string | undefined {
+    return parseFlowchart(`flowchart LR\n${declaration}`).nodes[0]?.label;
+  }
+
+  it('keeps brackets and link characters inside quoted labels', () => {
+    expect(labelOf('A["Call f(x) [fast] --> done"]')).toBe('Call f(x) [fast] --> done');
+    expect(labelOf('A{"Is it {ok}?"}')).toBe('Is it {ok}?');
+  });
+
+  it('decodes entities and line breaks in labels', () => {
+    expect(labelOf('A[Line one<br>Line #quot;two#quot;]')).toBe('Line one\nLine "two"');
+  });
+
+  it('reads markdown string labels', () => {
+    const [node] = parseFlowchart('flowchart LR\nA["`**Checkout**`"]').nodes;
+    expect(node).toMatchObject({ label: 'Checkout', bold: true });
+  });
+});
+
+describe('shapes', () => {
+  function shapeOf(declaration: string) {
+    return parseFlowchart(`flowchart LR\n${declaration}`).nodes[0];
+  }
+
+  it.each([
+    ['A[x]', 'rectangle'],
+    ['A(x)', 'rounded'],
+    ['A([x])', 'stadium'],
+    ['A[[x]]', 'subroutine'],
+    ['A[(x)]', 'cylinder'],
+    ['A((x))', 'circle'],
+    ['A(((x)))', 'double-circle'],
+    ['A>x]', 'asymmetric'],
+    ['A{x}', 'diamond'],
+    ['A{{x}}', 'hexagon'],
+    ['A[/x/]', 'lean-right'],
+    ['A[\\x\\]', 'lean-left'],
+    ['A[/x\\]', 'trapezoid'],
+    ['A[\\x/]', 'inv-trapezoid'],
+  ])('reads %s as a %s', (declaration, shape) => {
+    expect(shapeOf(declaration)).toMatchObject({ shape, label: 'x' });
+  });
+
+  it('reads shape objects with names, aliases and labels', () => {
+    expect(shapeOf('F@{ shape: doc, label: "Report" }')).toMatchObject({ shape: 'document', label: 'Report' });
+    expect(shapeOf('F@{ shape: database }')).toMatchObject({ shape: 'cylinder', label: 'F' });
+    expect(shapeOf('F@{ shape: DECISION, label: "Go?" }')).toMatchObject({ shape: 'diamond', label: 'Go?' });
+    expect(shapeOf('F@{ shape: nonsense }')).toMatchObject({ shape: 'rectangle' });
+  });
+
+  it('reads shape objects inside edge statements', () => {
+    const diagram = parseFlowchart('flowchart LR\nA@{ shape: start } --> B@{ shape: bolt, label: "Zap" }');
+    expect(diagram.nodes.map(node => [node.id, node.shape, node.label])).toEqual([
+      ['A', 'small-circle', 'A'],
+      ['B', 'bolt', 'Zap'],
+    ]);
+    expect(diagram.edges).toHaveLength(1);
+  });
+});
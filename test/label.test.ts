@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { decodeLabel, extractWikiLinks, isWikiLink } from '../src/parser/label.js';
+
+describe('extractWikiLinks', () => {
+  it('displays wiki-links by their target or alias and keeps the first as the link', () => {
+    expect(extractWikiLinks('See [[Payments Service]]')).toEqual({
+      label: 'See Payments Service',
+      rawLabel: 'See [[Payments Service]]',
+      link: '[[Payments Service]]',
+    });
+    expect(extractWikiLinks('[[Note|Alias]] and [[Other]]')).toEqual({
+      label: 'Alias and Other',
+      rawLabel: '[[Note|Alias]] and [[Other]]',
+      link: '[[Note|Alias]]',
+    });
+  });
+
+  it('leaves plain labels alone', () => {
+    expect(extractWikiLinks('Plain [label]')).toEqual({ label: 'Plain [label]' });
+  });
+});
+
+describe('isWikiLink', () => {
+  it('tells note links from URLs', () => {
+    expect(isWikiLink('[[Note]]')).toBe(true);
+    expect(isWikiLink('https://example.com')).toBe(false);
+  });
+});
+
+describe('decodeLabel', () => {
+  it('decodes named and numeric entity codes', () => {
+    expect(decodeLabel('Say #quot;hi#quot; #9829; #x2665; #amp; #unknown;', true).text)
+      .toBe('Say "hi" \u2665 \u2665 & #unknown;');
+  });
+
+  it('turns every <br> form into a line break', () => {
+    expect(decodeLabel('One<br>Two <br/> Three<BR />Four', false).text).toBe('One\nTwo\nThree\nFour');
+  });
+
+  it('strips markdown emphasis from markdown strings only', () => {
+    expect(decodeLabel('`**Bold** and *italic* and _soft_`', true)).toEqual({
+      text: 'Bold and italic and soft',
+      bold: false,
+    });
+    expect(decodeLabel('**Bold**', true).text).toBe('**Bold**');
+    expect(decodeLabel('`**Checkout**`', true)).toEqual({ text: 'Checkout', bold: true });
+    expect(decodeLabel('`__Checkout__`', true)).toEqual({ text: 'Checkout', bold: true });
+  });
+
+  it('keeps underscores inside words', () => {
+    expect(decodeLabel('`my_var_name and __init__ call`', true).text).toBe('my_var_name and init call');
+    expect(decodeLabel('`snake_case_id`', true).text).toBe('snake_case_id');
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { layeredLayout, type LayeredEdge, type LayeredItem } from '../src/converter/layered.js';
+
+const OPTIONS = { direction: 'TD' as const, nodeGap: 40, rankGap: 60 };
+
+function items(count: number): LayeredItem[] {
+  return Array.from({ length: count }, (_, i) => ({ id: `n${i}`, width: 120, height: 50 }));
+}
+
+function edge(source: number, target: number, minLength?: number): LayeredEdge {
+  return { source: `n${source}`, target: `n${target}`, minLength };
+}
+
+function overlapping(boxes: Array<{ x: number; y: number }>, width: number, height: number): number {
+  let count = 0;
+  for (let i = 0; i < boxes.length; i++) {
+    for (let j = i + 1; j < boxes.length; j++) {
+      if (Math.abs(boxes[i].x - boxes[j].x) < width && Math.abs(boxes[i].y - boxes[j].y) < height) count++;
+    }
+  }
+  return count;
+}
+
+describe('layeredLayout', () => {
+  it('places each edge target in a later rank', () => {
+    const edges = [edge(0, 1), edge(0, 2), edge(1, 3), edge(2, 3)];
+    const { positions } = layeredLayout(items(4), edges, OPTIONS);
+    for (const { source, target } of edges) {
+      expect(positions.get(target)!.y).toBeGreaterThan(positions.get(source)!.y);
+    }
+    expect(positions.get('n1')!.y).toBe(positions.get('n2')!.y);
+  });
+
+  it('runs ranks left to right for LR', () => {
+    const { positions } = layeredLayout(items(3), [edge(0, 1), edge(1, 2)], { ...OPTIONS, direction: 'LR' });
+    const xs = ['n0', 'n1', 'n2'].map(id => positions.get(id)!.x);
+    expect(xs[0]).toBeLessThan(xs[1]);
+    expect(xs[1]).toBeLessThan(xs[2]);
+  });
+
+  it('spans minLength ranks and bends long edges through the skipped ranks', () => {
+    const { positions, bends } = layeredLayout(items(2), [edge(0, 1, 3)], OPTIONS);
+    const oneRank = layeredLayout(items(2), [edge(0, 1)], OPTIONS).positions;
+    expect(positions.get('n1')!.y - positions.get('n0')!.y).toBe(oneRank.get('n1')!.y - oneRank.get('n0')!.y + 2 * OPTIONS.rankGap);
+    expect(bends[0]).toHaveLength(2);
+  });
+
+  it('lays out cycles', () => {
+    const { positions } = layeredLayout(items(3), [edge(0, 1), edge(1, 2), edge(2, 0)], OPTIONS);
+    expect(positions.size).toBe(3);
+    expect(overlapping([...positions.values()], 120, 50)).toBe(0);
+  });
+
+  it('lays out a 1000-node graph without overflowing the stack', () => {
+    // Deterministic pseudo-random graph: every node hangs below a recent one, plus long forward edges
+    let seed = 1;
+    const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+    const edges: LayeredEdge[] = [];
+    for (let i = 1; i < 1000; i++) {
+      edges.push(edge(Math.max(0, i - 1 - Math.floor(random() * 3)), i));
+    }
+    for (let k = 0; k < 1000; k++) {
+      const a = Math.floor(random() * 1000);
+      const b = Math.floor(random() * 1000);
+      edges.push(edge(Math.min(a, b), Math.max(a, b)));
+    }
+
+    const result = layeredLayout(items(1000), edges, OPTIONS);
+    expect(result.positions.size).toBe(1000);
+    expect(Number.isFinite(result.width) && Number.isFinite(result.height)).toBe(true);
+  }, 60_000);
+});
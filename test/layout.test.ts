@@ -0,0 +1,177 @@
+import { describe, expect, it } from 'vitest';
+import { parseFlowchart } from '../src/parser/flowchart.js';
+import { parseERDiagram } from '../src/parser/er.js';
+import { layoutDiagram } from '../src/converter/layout.js';
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+function overlaps(a: Box, b: Box): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+function bounds(boxes: Box[]): Box {
+  const x = boxes.reduce((min, box) => Math.min(min, box.x), Infinity);
+  const y = boxes.reduce((min, box) => Math.min(min, box.y), Infinity);
+  const right = boxes.reduce((max, box) => Math.max(max, box.x + box.width), -Infinity);
+  const bottom = boxes.reduce((max, box) => Math.max(max, box.y + box.height), -Infinity);
+  return { x, y, width: right - x, height: bottom - y };
+}
+
+function contains(outer: Box, inner: Box): boolean {
+  return inner.x >= outer.x && inner.y >= outer.y
+    && inner.x + inner.width <= outer.x + outer.width
+    && inner.y + inner.height <= outer.y + outer.height;
+}
+
+describe('subgraph layout', () => {
+  it('encloses nested subgraphs and their nodes', () => {
+    const layout = layoutDiagram(parseFlowchart(`flowchart TD
+      subgraph Outer
+        A --> B
+        subgraph Inner
+          direction LR
+          C --> D
+        end
+      end
+      B --> C
+      D --> E`));
+    const outer = layout.subgraphs.find(sg => sg.id === 'Outer')!;
+    const inner = layout.subgraphs.find(sg => sg.id === 'Inner')!;
+
+    expect(contains(outer, inner)).toBe(true);
+    for (const id of ['A', 'B']) expect(contains(outer, layout.nodes.get(id)!)).toBe(true);
+    for (const id of ['C', 'D']) expect(contains(inner, layout.nodes.get(id)!)).toBe(true);
+    expect(contains(outer, layout.nodes.get('E')!)).toBe(false);
+  });
+
+  it('lays a subgraph out in its own direction', () => {
+    const layout = layoutDiagram(parseFlowchart(`flowchart TD
+      subgraph Row
+        direction LR
+        A --> B --> C
+      end`));
+    const [a, b, c] = ['A', 'B', 'C'].map(id => layout.nodes.get(id)!);
+    expect(a.x).toBeLessThan(b.x);
+    expect(b.x).toBeLessThan(c.x);
+    expect(a.y).toBe(b.y);
+  });
+});
+
+describe('subgraph clusters', () => {
+  const source = `flowchart LR
+    subgraph One
+      A --> B
+    end
+    subgraph Two
+      C --> D
+    end
+    subgraph Three [A rather long subgraph title for one small node]
+      E
+    end
+    X --> A
+    B --> C
+    D --> E
+    A --> D
+    X --> E`;
+
+  it('keeps sibling subgraphs apart', () => {
+    const { subgraphs } = layoutDiagram(parseFlowchart(source));
+    expect(subgraphs).toHaveLength(3);
+    for (let i = 0; i < subgraphs.length; i++) {
+      for (let j = i + 1; j < subgraphs.length; j++) {
+        expect(overlaps(subgraphs[i], subgraphs[j])).toBe(false);
+      }
+    }
+  });
+
+  it('keeps outside nodes out of subgraphs', () => {
+    const layout = layoutDiagram(parseFlowchart(source));
+    const x = layout.nodes.get('X')!;
+    for (const sg of layout.subgraphs) {
+      expect(overlaps(sg, x)).toBe(false);
+    }
+  });
+
+  it('makes room for the subgraph title', () => {
+    const layout = layoutDiagram(parseFlowchart(source));
+    const three = layout.subgraphs.find(sg => sg.id === 'Three')!;
+    const e = layout.nodes.get('E')!;
+    expect(three.width).toBeGreaterThan(e.width * 1.5);
+    // The title sits above the content, so the top margin is the larger one
+    expect(e.y - three.y).toBeGreaterThan(three.y + three.height - (e.y + e.height));
+  });
+});
+
+describe('large flowcharts', () => {
+  it('lays out a 1000-node flowchart', () => {
+    let seed = 7;
+    const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+    const lines = ['flowchart TD'];
+    for (let i = 1; i < 1000; i++) {
+      lines.push(`N${Math.max(0, i - 1 - Math.floor(random() * 3))} --> N${i}`);
+    }
+    for (let k = 0; k < 1000; k++) {
+      const a = Math.floor(random() * 1000);
+      const b = Math.floor(random() * 1000);
+      if (a !== b) lines.push(`N${Math.min(a, b)} --> N${Math.max(a, b)}`);
+    }
+
+    const layout = layoutDiagram(parseFlowchart(lines.join('\n')));
+    expect(layout.nodes.size).toBe(1000);
+    expect(Number.isFinite(layout.width) && Number.isFinite(layout.height)).toBe(true);
+  }, 120_000);
+});
+
+describe('node sizes', () => {
+  it('grows nodes to fit their labels', () => {
+    const layout = layoutDiagram(parseFlowchart(`flowchart LR
+      A[Hi] --> B[A much longer label that needs a lot more room than the other]`));
+    const [a, b] = ['A', 'B'].map(id => layout.nodes.get(id)!);
+    expect(b.width * b.height).toBeGreaterThan(a.width * a.height);
+  });
+});
+
+describe('ER layout', () => {
+  const source = `erDiagram
+    CUSTOMER ||--o{ ORDER : places
+    ORDER ||--|{ LINE_ITEM : contains
+    PRODUCT ||--o{ LINE_ITEM : "ordered in"
+    CUSTOMER ||--o{ ADDRESS : "ships to"
+    INVOICE ||--|{ PAYMENT : "paid by"
+    INVOICE ||--o{ REFUND : issues
+    AUDIT_LOG {
+      string id
+      string action
+    }`;
+
+  it('places entities force-directed without overlaps', () => {
+    const layout = layoutDiagram(parseERDiagram(source));
+    const boxes = [...layout.nodes.values()];
+    expect(boxes).toHaveLength(9);
+    for (let i = 0; i < boxes.length; i++) {
+      for (let j = i + 1; j < boxes.length; j++) expect(overlaps(boxes[i], boxes[j])).toBe(false);
+    }
+  });
+
+  it('packs unconnected groups of entities side by side', () => {
+    const layout = layoutDiagram(parseERDiagram(source));
+    const group = (ids: string[]) => bounds(ids.map(id => layout.nodes.get(id)!));
+    const orders = group(['CUSTOMER', 'ORDER', 'LINE_ITEM', 'PRODUCT', 'ADDRESS']);
+    const invoices = group(['INVOICE', 'PAYMENT', 'REFUND']);
+    const audit = group(['AUDIT_LOG']);
+    expect(overlaps(orders, invoices)).toBe(false);
+    expect(overlaps(orders, audit)).toBe(false);
+    expect(overlaps(invoices, audit)).toBe(false);
+  });
+
+  it('gives the same layout on every run', () => {
+    const first = layoutDiagram(parseERDiagram(source));
+    const second = layoutDiagram(parseERDiagram(source));
+    expect([...second.nodes]).toEqual([...first.nodes]);
+  });
+});
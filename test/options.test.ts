@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { readConversionOptions } from '../src/options.js';
+
+describe('readConversionOptions', () => {
+  it('passes valid options through', () => {
+    expect(readConversionOptions({ mermaid: 'flowchart LR', subgraphs: 'group' })).toMatchObject({ subgraphs: 'group' });
+    expect(readConversionOptions({})).toEqual({});
+  });
+
+  it('rejects unknown subgraph modes', () => {
+    expect(readConversionOptions({ subgraphs: 'boxes' })).toBe('subgraphs must be one of frame, group');
+    expect(readConversionOptions({ subgraphs: 1 })).toBe('subgraphs must be one of frame, group');
+  });
+});
+
+describe('edgeRouting', () => {
+  it('accepts the routing styles and rejects anything else', () => {
+    expect(readConversionOptions({ edgeRouting: 'rounded' })).toMatchObject({ edgeRouting: 'rounded' });
+    expect(readConversionOptions({ edgeRouting: 'curved' })).toBe('edgeRouting must be one of orthogonal, rounded, straight');
+  });
+});
+
+describe('layout and spacing', () => {
+  it('accepts the layout engines and spacing within range', () => {
+    expect(readConversionOptions({ layout: 'force', spacing: { nodeGap: 0, rankGap: 1000 } })).toMatchObject({
+      layout: 'force',
+      spacing: { nodeGap: 0, rankGap: 1000 },
+    });
+  });
+
+  it('rejects unknown layout engines', () => {
+    expect(readConversionOptions({ layout: 'spiral' })).toBe('layout must be one of layered, force, grid, radial, circular');
+  });
+
+  it('rejects spacing that is not a plain object', () => {
+    for (const spacing of [null, 40, [40], 'wide']) {
+      expect(readConversionOptions({ spacing })).toBe('spacing must be an object with nodeGap, rankGap, subgraphPadding');
+    }
+  });
+
+  it('rejects unknown spacing keys', () => {
+    expect(readConversionOptions({ spacing: { gap: 10 } }))
+      .toBe('Unknown spacing key: gap (expected nodeGap, rankGap, subgraphPadding)');
+  });
+
+  it('rejects spacing values that are not finite numbers in range', () => {
+    for (const value of [-1, 1001, Infinity, NaN, '40']) {
+      expect(readConversionOptions({ spacing: { nodeGap: value } })).toBe('spacing.nodeGap must be a number from 0 to 1000');
+    }
+  });
+});
+
+describe('mirrorParticipants', () => {
+  it('accepts a boolean and rejects anything else', () => {
+    expect(readConversionOptions({ mirrorParticipants: true })).toMatchObject({ mirrorParticipants: true });
+    expect(readConversionOptions({ mirrorParticipants: 'yes' })).toBe('mirrorParticipants must be a boolean');
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { placeItems } from '../src/converter/placement.js';
+import type { LayeredEdge, LayeredItem, LayeredResult } from '../src/converter/layered.js';
+import type { LayoutEngine } from '../src/types/index.js';
+
+const OPTIONS = { direction: 'TD' as const, nodeGap: 40, rankGap: 60 };
+const ENGINES: LayoutEngine[] = ['layered', 'force', 'grid', 'radial', 'circular'];
+
+function items(count: number, width = 120, height = 50): LayeredItem[] {
+  return Array.from({ length: count }, (_, i) => ({ id: `n${i}`, width: width + (i % 3) * 20, height }));
+}
+
+// A small tree with a cross link
+const EDGES: LayeredEdge[] = [
+  ['n0', 'n1'], ['n0', 'n2'], ['n1', 'n3'], ['n1', 'n4'], ['n2', 'n5'], ['n5', 'n6'], ['n4', 'n5'],
+].map(([source, target]) => ({ source, target }));
+
+function overlapCount(boxes: LayeredItem[], result: LayeredResult): number {
+  let count = 0;
+  for (let i = 0; i < boxes.length; i++) {
+    for (let j = i + 1; j < boxes.length; j++) {
+      const a = result.positions.get(boxes[i].id)!;
+      const b = result.positions.get(boxes[j].id)!;
+      if (a.x < b.x + boxes[j].width && b.x < a.x + boxes[i].width
+        && a.y < b.y + boxes[j].height && b.y < a.y + boxes[i].height) count++;
+    }
+  }
+  return count;
+}
+
+describe('placeItems', () => {
+  it.each(ENGINES)('places every item without overlaps with the %s engine', engine => {
+    const boxes = items(7);
+    const result = placeItems(engine, boxes, EDGES, OPTIONS);
+    expect(result.positions.size).toBe(7);
+    expect(overlapCount(boxes, result)).toBe(0);
+    expect(result.bends).toHaveLength(EDGES.length);
+  });
+
+  it.each(ENGINES)('starts the %s layout at the origin and reports its extent', engine => {
+    const boxes = items(7);
+    const result = placeItems(engine, boxes, EDGES, OPTIONS);
+    const positions = [...result.positions.values()];
+    expect(Math.min(...positions.map(p => p.x))).toBe(0);
+    expect(Math.min(...positions.map(p => p.y))).toBe(0);
+    for (const box of boxes) {
+      const { x, y } = result.positions.get(box.id)!;
+      expect(x + box.width).toBeLessThanOrEqual(result.width);
+      expect(y + box.height).toBeLessThanOrEqual(result.height);
+    }
+  });
+
+  it.each(ENGINES)('gives the same %s layout on every run', engine => {
+    const first = placeItems(engine, items(7), EDGES, OPTIONS);
+    const second = placeItems(engine, items(7), EDGES, OPTIONS);
+    expect([...second.positions]).toEqual([...first.positions]);
+  });
+
+  it('lines the grid up in rows and columns', () => {
+    const result = placeItems('grid', items(9, 100, 50), [], OPTIONS);
+    const xs = new Set([...result.positions.values()].map(p => p.x));
+    const ys = new Set([...result.positions.values()].map(p => p.y));
+    expect(xs.size).toBe(3);
+    expect(ys.size).toBe(3);
+  });
+
+  it('rings each generation around a single radial root', () => {
+    const boxes = items(7, 100, 50);
+    const result = placeItems('radial', boxes, EDGES, OPTIONS);
+    const center = (id: string) => {
+      const { x, y } = result.positions.get(id)!;
+      const box = boxes.find(item => item.id === id)!;
+      return { x: x + box.width / 2, y: y + box.height / 2 };
+    };
+    const root = center('n0');
+    const distance = (id: string) => Math.hypot(center(id).x - root.x, center(id).y - root.y);
+    expect(distance('n1')).toBeCloseTo(distance('n2'), -1);
+    expect(distance('n3')).toBeCloseTo(distance('n5'), -1);
+    expect(distance('n3')).toBeGreaterThan(distance('n1'));
+    expect(distance('n6')).toBeGreaterThan(distance('n3'));
+  });
+
+  it('separates a dense force layout completely', () => {
+    let seed = 3;
+    const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+    const boxes = items(300);
+    const edges: LayeredEdge[] = Array.from({ length: 900 }, () => ({
+      source: `n${Math.floor(random() * 300)}`,
+      target: `n${Math.floor(random() * 300)}`,
+    }));
+    const result = placeItems('force', boxes, edges, OPTIONS);
+    expect(overlapCount(boxes, result)).toBe(0);
+  }, 60_000);
+});
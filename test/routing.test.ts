@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { routeEdges, type Point, type RouteBox } from '../src/converter/routing.js';
+
+function box(id: string, x: number, y: number, width = 100, height = 50): RouteBox {
+  return { id, x, y, width, height };
+}
+
+function route(boxes: RouteBox[], source: string, target: string, horizontal = false): Point[] {
+  const byId = new Map(boxes.map(b => [b.id, b]));
+  return routeEdges([{ source, target, horizontal }], byId, { obstacles: boxes, spread: new Set() })[0];
+}
+
+// Whether a path passes through the inside of a box
+function crosses(path: Point[], b: RouteBox): boolean {
+  return path.slice(1).some((p, i) => {
+    const q = path[i];
+    const [left, right] = [Math.min(p.x, q.x), Math.max(p.x, q.x)];
+    const [top, bottom] = [Math.min(p.y, q.y), Math.max(p.y, q.y)];
+    return left < b.x + b.width && right > b.x && top < b.y + b.height && bottom > b.y;
+  });
+}
+
+function isOrthogonal(path: Point[]): boolean {
+  return path.slice(1).every((p, i) => p.x === path[i].x || p.y === path[i].y);
+}
+
+function onBorder(point: Point, b: RouteBox): boolean {
+  const withinX = point.x >= b.x && point.x <= b.x + b.width;
+  const withinY = point.y >= b.y && point.y <= b.y + b.height;
+  return (withinX && (point.y === b.y || point.y === b.y + b.height))
+    || (withinY && (point.x === b.x || point.x === b.x + b.width));
+}
+
+describe('routeEdges', () => {
+  it('routes around a node in the way', () => {
+    const boxes = [box('A', 0, 0), box('B', 0, 300), box('X', -20, 140, 140, 60)];
+    const path = route(boxes, 'A', 'B');
+    expect(isOrthogonal(path)).toBe(true);
+    expect(crosses(path, boxes[2])).toBe(false);
+    expect(onBorder(path[0], boxes[0])).toBe(true);
+    expect(onBorder(path[path.length - 1], boxes[1])).toBe(true);
+  });
+
+  it('draws a straight segment when nothing is in the way', () => {
+    const path = route([box('A', 0, 0), box('B', 300, 0)], 'A', 'B', true);
+    expect(path).toHaveLength(2);
+    expect(path[0].y).toBe(path[1].y);
+  });
+
+  it('loops self-edges back to their node', () => {
+    const a = box('A', 0, 0);
+    const path = route([a], 'A', 'A');
+    expect(path.length).toBeGreaterThan(2);
+    expect(onBorder(path[0], a)).toBe(true);
+    expect(onBorder(path[path.length - 1], a)).toBe(true);
+  });
+
+  it('still avoids nearby nodes in diagrams too large to search whole', () => {
+    // 16 x 16 grid of nodes, routed from one corner to the other
+    const boxes: RouteBox[] = [];
+    for (let row = 0; row < 16; row++) {
+      for (let col = 0; col < 16; col++) {
+        boxes.push(box(`N${row}_${col}`, col * 200, row * 150));
+      }
+    }
+    const path = route(boxes, 'N0_0', 'N15_15');
+    expect(isOrthogonal(path)).toBe(true);
+    const crossed = boxes.filter(b => b.id !== 'N0_0' && b.id !== 'N15_15' && crosses(path, b));
+    expect(crossed).toEqual([]);
+  });
+});
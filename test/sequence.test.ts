@@ -0,0 +1,403 @@
+import { describe, expect, it } from 'vitest';
+import { parseSequenceDiagram } from '../src/parser/sequence.js';
+import { layoutDiagram } from '../src/converter/layout.js';
+import { convertToExcalidraw } from '../src/converter/index.js';
+
+describe('sequence notes', () => {
+  it('parses note placements in timeline order', () => {
+    const diagram = parseSequenceDiagram(`sequenceDiagram
+      Alice->>Bob: Hello
+      Note right of Bob: Thinks
+      Note left of Alice: Waits
+      note over Alice, Bob: Both here`);
+    expect(diagram.sequence?.events).toEqual([
+      { kind: 'message', edge: 0 },
+      { kind: 'note', note: { placement: 'right', participants: ['Bob'], text: 'Thinks' } },
+      { kind: 'note', note: { placement: 'left', participants: ['Alice'], text: 'Waits' } },
+      { kind: 'note', note: { placement: 'over', participants: ['Alice', 'Bob'], text: 'Both here' } },
+    ]);
+  });
+
+  it('adds participants that only appear in notes', () => {
+    const diagram = parseSequenceDiagram('sequenceDiagram\nNote over Carol: Alone');
+    expect(diagram.nodes.map(node => node.id)).toEqual(['Carol']);
+  });
+
+  it('places notes beside or across their lifelines', () => {
+    const layout = layoutDiagram(parseSequenceDiagram(`sequenceDiagram
+      participant Alice
+      participant Bob
+      Note left of Alice: Left
+      Note right of Bob: Right
+      Note over Alice, Bob: Across`));
+    const lifeline = (id: string) => layout.nodes.get(id)!.x + layout.nodes.get(id)!.width / 2;
+    const [left, right, across] = layout.notes!;
+    expect(left.x + left.width).toBeLessThanOrEqual(lifeline('Alice'));
+    expect(right.x).toBeGreaterThanOrEqual(lifeline('Bob'));
+    expect(across.x).toBeLessThan(lifeline('Alice'));
+    expect(across.x + across.width).toBeGreaterThan(lifeline('Bob'));
+    expect(layout.width).toBeGreaterThanOrEqual(right.x + right.width);
+  });
+
+  it('moves later messages below a note', () => {
+    const layout = layoutDiagram(parseSequenceDiagram(`sequenceDiagram
+      Alice->>Bob: Before
+      Note over Bob: A note<br>over two lines
+      Bob->>Alice: After`));
+    const [note] = layout.notes!;
+    const [before, after] = layout.edges.map(edge => edge.points[0].y);
+    expect(note.y).toBeGreaterThan(before);
+    expect(after).toBeGreaterThan(note.y + note.height);
+  });
+
+  it('draws notes as filled boxes with their text bound inside', () => {
+    const { elements } = convertToExcalidraw(parseSequenceDiagram(`sequenceDiagram
+      Alice->>Bob: Hello
+      Note right of Bob: Thinks`));
+    const text = elements.find(element => element.type === 'text' && element.text === 'Thinks')!;
+    const note = elements.find(element => element.id === text.containerId)!;
+    expect(note.type).toBe('rectangle');
+    expect(note.backgroundColor).toBe('#fff3bf');
+    expect(note.boundElements).toEqual([{ id: text.id, type: 'text' }]);
+
+    const arrow = elements.find(element => element.type === 'arrow')!;
+    expect(note.index > arrow.index).toBe(true);
+    expect(text.index > note.index).toBe(true);
+  });
+});
+
+describe('sequence fragments', () => {
+  const source = `sequenceDiagram
+    Alice->>Bob: Hello
+    loop Every minute
+      Bob->>Alice: Ping
+      alt is healthy
+        Alice->>Bob: Pong
+      else is down
+        Alice-xBob: Timeout
+      end
+    end
+    Bob->>Alice: Bye`;
+
+  it('parses nested fragments and their sections', () => {
+    const { sequence } = parseSequenceDiagram(source);
+    expect(sequence?.fragments).toEqual([
+      { kind: 'loop', label: 'Every minute' },
+      { kind: 'alt', label: 'is healthy', parent: 0 },
+    ]);
+    expect(sequence?.events.filter(event => event.kind !== 'message')).toEqual([
+      { kind: 'fragmentStart', fragment: 0 },
+      { kind: 'fragmentStart', fragment: 1 },
+      { kind: 'fragmentSection', fragment: 1, label: 'is down' },
+      { kind: 'fragmentEnd', fragment: 1 },
+      { kind: 'fragmentEnd', fragment: 0 },
+    ]);
+  });
+
+  it('closes fragments left open at the end', () => {
+    const { sequence } = parseSequenceDiagram('sequenceDiagram\nopt Maybe\nA->>B: Hi');
+    expect(sequence?.events.at(-1)).toEqual({ kind: 'fragmentEnd', fragment: 0 });
+  });
+
+  it('reads rect colors as hex with opacity', () => {
+    const { sequence } = parseSequenceDiagram(`sequenceDiagram
+      rect rgb(255, 0, 128)
+        A->>B: Hi
+      end
+      rect rgba(0, 0, 255, 0.25)
+        A->>B: There
+      end
+      rect lightyellow
+        A->>B: Again
+      end`);
+    expect(sequence?.fragments).toEqual([
+      { kind: 'rect', label: '', color: '#ff0080' },
+      { kind: 'rect', label: '', color: '#0000ff', opacity: 25 },
+      { kind: 'rect', label: '', color: 'lightyellow' },
+    ]);
+  });
+
+  it('encloses the messages of a fragment, nested fragments inside their parent', () => {
+    const layout = layoutDiagram(parseSequenceDiagram(source));
+    const [loop, alt] = layout.fragments!;
+    const [hello, ping, pong, timeout, bye] = layout.edges.map(edge => edge.points[0].y);
+    expect(loop.y).toBeGreaterThan(hello);
+    expect(loop.y + loop.height).toBeLessThan(bye);
+    expect(loop.y).toBeLessThan(ping);
+    expect(alt.y).toBeGreaterThan(ping);
+    expect(alt.y + alt.height).toBeLessThanOrEqual(loop.y + loop.height);
+    expect(alt.x).toBeGreaterThanOrEqual(loop.x);
+    expect(alt.x + alt.width).toBeLessThanOrEqual(loop.x + loop.width);
+
+    expect(alt.sections).toHaveLength(1);
+    const [section] = alt.sections;
+    expect(section.label).toBe('is down');
+    expect(section.y).toBeGreaterThan(pong);
+    expect(section.y).toBeLessThan(timeout);
+  });
+
+  it('draws a tagged, grouped frame per fragment', () => {
+    const { elements } = convertToExcalidraw(parseSequenceDiagram(source));
+    for (const text of ['loop', '[Every minute]', 'alt', '[is healthy]', '[is down]']) {
+      expect(elements.some(element => element.type === 'text' && element.text === text)).toBe(true);
+    }
+    const tag = elements.find(element => element.type === 'text' && element.text === 'loop')!;
+    const group = elements.filter(element => element.groupIds.includes(tag.groupIds[0]));
+    expect(group.map(element => element.type).sort()).toEqual(['line', 'rectangle', 'text', 'text']);
+    expect(elements.some(element => element.type === 'line' && element.strokeStyle === 'dashed')).toBe(true);
+  });
+});
+
+describe('sequence activations', () => {
+  it('folds activate lines into the message before them', () => {
+    const { sequence } = parseSequenceDiagram(`sequenceDiagram
+      Alice->>Bob: Request
+      activate Bob
+      Bob-->>Alice: Response
+      deactivate Bob
+      activate Alice
+      deactivate Alice`);
+    expect(sequence?.events).toEqual([
+      { kind: 'message', edge: 0, activateTarget: true },
+      { kind: 'message', edge: 1, deactivateSource: true, activateTarget: true },
+      { kind: 'deactivate', participant: 'Alice' },
+    ]);
+  });
+
+  it('reads +/- suffixes on every arrow type', () => {
+    const { sequence, edges } = parseSequenceDiagram(`sequenceDiagram
+      Alice->>+Bob: Solid
+      Bob--x-Alice: Cross
+      Alice->+Bob: Open`);
+    expect(edges.map(edge => edge.label)).toEqual(['Solid', 'Cross', 'Open']);
+    expect(sequence?.events).toEqual([
+      { kind: 'message', edge: 0, activateTarget: true },
+      { kind: 'message', edge: 1, deactivateSource: true },
+      { kind: 'message', edge: 2, activateTarget: true },
+    ]);
+  });
+
+  it('runs a bar from its opening to its closing message and attaches arrows to it', () => {
+    const layout = layoutDiagram(parseSequenceDiagram(`sequenceDiagram
+      Alice->>+Bob: Request
+      Bob-->>-Alice: Response`));
+    const [bar] = layout.activations!;
+    const [request, response] = layout.edges;
+    expect(bar.participant).toBe('Bob');
+    expect(bar.y).toBe(request.points[0].y);
+    expect(bar.y + bar.height).toBe(response.points[0].y);
+    // Bob is to the right, so both messages meet the bar's left side
+    expect(request.points[1].x).toBe(bar.x);
+    expect(response.points[0].x).toBe(bar.x);
+    expect(request.targetActivation).toBe(0);
+    expect(response.sourceActivation).toBe(0);
+  });
+
+  it('steps nested bars to the right and closes open bars at the end', () => {
+    const layout = layoutDiagram(parseSequenceDiagram(`sequenceDiagram
+      Alice->>+Bob: Outer
+      Alice->>+Bob: Inner
+      Bob-->>-Alice: Done`));
+    const [outer, inner] = layout.activations!;
+    expect(inner.x).toBeGreaterThan(outer.x);
+    expect(inner.y).toBeGreaterThan(outer.y);
+    expect(outer.y + outer.height).toBeGreaterThan(layout.edges[2].points[0].y);
+  });
+
+  it('binds messages to the activation bar element', () => {
+    const { elements } = convertToExcalidraw(parseSequenceDiagram(`sequenceDiagram
+      Alice->>+Bob: Request
+      Bob-->>-Alice: Response`));
+    const bar = elements.find(element => element.type === 'rectangle' && element.width === 12)!;
+    const arrows = elements.filter(element => element.type === 'arrow');
+    expect(arrows[0].endBinding?.elementId).toBe(bar.id);
+    expect(arrows[1].startBinding?.elementId).toBe(bar.id);
+  });
+});
+
+describe('sequence message types', () => {
+  it('maps each arrow to its line and heads', () => {
+    const { edges } = parseSequenceDiagram(`sequenceDiagram
+      A->>B: filled
+      A-->>B: dashed filled
+      A->B: plain
+      A--xB: dashed cross
+      A-)B: async
+      A<<->>B: both ways
+      A<<-xB: not a message`);
+    expect(edges.map(({ label, lineStyle, arrowType, startArrowhead, endArrowhead }) =>
+      ({ label, lineStyle, arrowType, startArrowhead, endArrowhead }))).toEqual([
+      { label: 'filled', lineStyle: 'solid', arrowType: 'arrow', startArrowhead: undefined, endArrowhead: 'triangle' },
+      { label: 'dashed filled', lineStyle: 'dashed', arrowType: 'arrow', startArrowhead: undefined, endArrowhead: 'triangle' },
+      { label: 'plain', lineStyle: 'solid', arrowType: 'none', startArrowhead: undefined, endArrowhead: undefined },
+      { label: 'dashed cross', lineStyle: 'dashed', arrowType: 'arrow', startArrowhead: undefined, endArrowhead: 'cross' },
+      { label: 'async', lineStyle: 'solid', arrowType: 'arrow', startArrowhead: undefined, endArrowhead: 'arrow' },
+      { label: 'both ways', lineStyle: 'solid', arrowType: 'both', startArrowhead: 'triangle', endArrowhead: 'triangle' },
+    ]);
+  });
+
+  it('draws filled heads as Excalidraw triangles', () => {
+    const { elements } = convertToExcalidraw(parseSequenceDiagram('sequenceDiagram\nA<<->>B: Sync\nA->B: Plain'));
+    const [sync, plain] = elements.filter(element => element.type === 'arrow');
+    expect([sync.startArrowhead, sync.endArrowhead]).toEqual(['triangle', 'triangle']);
+    expect([plain.startArrowhead, plain.endArrowhead]).toEqual([null, null]);
+  });
+});
+
+describe('sequence self-messages', () => {
+  it('loops out to the right and returns lower down', () => {
+    const layout = layoutDiagram(parseSequenceDiagram(`sequenceDiagram
+      Alice->>Alice: Think
+      Alice->>Bob: Tell`));
+    const [think, tell] = layout.edges;
+    const center = layout.nodes.get('Alice')!.x + layout.nodes.get('Alice')!.width / 2;
+    expect(think.points).toHaveLength(4);
+    const [start, out, down, end] = think.points;
+    expect(start.x).toBe(center);
+    expect(end.x).toBe(center);
+    expect(out.x).toBeGreaterThan(center);
+    expect(down.x).toBe(out.x);
+    expect(end.y).toBeGreaterThan(start.y);
+    expect(tell.points[0].y).toBeGreaterThan(end.y);
+  });
+
+  it('makes room for the loop before the next lifeline', () => {
+    const label = 'A rather long thought to have alone, and then to keep on having for a while longer';
+    const plain = layoutDiagram(parseSequenceDiagram('sequenceDiagram\nAlice->>Bob: Hi'));
+    const looped = layoutDiagram(parseSequenceDiagram(`sequenceDiagram\nAlice->>Alice: ${label}\nAlice->>Bob: Hi`));
+    const gap = (layout: typeof plain) => layout.nodes.get('Bob')!.x - layout.nodes.get('Alice')!.x;
+    expect(gap(looped)).toBeGreaterThan(gap(plain));
+  });
+});
+
+describe('sequence autonumber', () => {
+  it('numbers messages from a start by a step until turned off', () => {
+    const { sequence } = parseSequenceDiagram(`sequenceDiagram
+      A->>B: one
+      autonumber 10 5
+      A->>B: two
+      B->>A: three
+      autonumber off
+      A->>B: four
+      autonumber
+      A->>B: five`);
+    expect(sequence?.events.map(event => event.kind === 'message' ? event.number : null))
+      .toEqual([undefined, 10, 15, undefined, 1]);
+  });
+
+  it('puts a numbered badge at the start of each message', () => {
+    const { elements } = convertToExcalidraw(parseSequenceDiagram('sequenceDiagram\nautonumber\nA->>B: Hi\nB->>A: Back'));
+    const badges = elements.filter(element => element.type === 'ellipse');
+    const numbers = badges.map(badge => elements.find(element => element.containerId === badge.id)?.text);
+    expect(numbers).toEqual(['1', '2']);
+
+    const arrow = elements.find(element => element.type === 'arrow')!;
+    expect(badges[0].x + badges[0].width / 2).toBeCloseTo(arrow.x);
+    expect(badges[0].y + badges[0].height / 2).toBeCloseTo(arrow.y);
+  });
+});
+
+describe('sequence participants', () => {
+  it('strips quotes from aliases', () => {
+    const { nodes } = parseSequenceDiagram(`sequenceDiagram
+      participant API as "Payments API"
+      actor U as User`);
+    expect(nodes.map(node => [node.id, node.label, node.shape])).toEqual([
+      ['API', 'Payments API', 'rectangle'],
+      ['U', 'User', 'ellipse'],
+    ]);
+  });
+
+  it('parses box colors and labels around declarations', () => {
+    const { sequence } = parseSequenceDiagram(`sequenceDiagram
+      box Aqua Frontend
+        participant Web
+      end
+      box rgba(33, 66, 99, 0.5) Backend Services
+        participant API
+        participant DB
+      end
+      box Ungrouped
+        participant Lone
+      end
+      Web->>API: Call`);
+    expect(sequence?.boxes).toEqual([
+      { label: 'Frontend', color: 'Aqua', participants: ['Web'] },
+      { label: 'Backend Services', color: '#214263', opacity: 50, participants: ['API', 'DB'] },
+      { label: 'Ungrouped', participants: ['Lone'] },
+    ]);
+  });
+
+  it('draws a box behind its participants with room for its label', () => {
+    const layout = layoutDiagram(parseSequenceDiagram(`sequenceDiagram
+      box LightBlue Backend
+        participant API
+        participant DB
+      end
+      API->>DB: Query`));
+    const [box] = layout.boxes!;
+    for (const id of ['API', 'DB']) {
+      const node = layout.nodes.get(id)!;
+      expect(node.x).toBeGreaterThan(box.x);
+      expect(node.x + node.width).toBeLessThan(box.x + box.width);
+      expect(node.y).toBeGreaterThan(box.y);
+    }
+    expect(box.y + box.height).toBeGreaterThan(layout.lifelines![0].bottom);
+
+    const { elements } = convertToExcalidraw(parseSequenceDiagram(`sequenceDiagram
+      box LightBlue Backend
+        participant API
+      end`));
+    expect(elements.some(element => element.type === 'text' && element.text === 'Backend')).toBe(true);
+    const header = elements.find(element => element.type === 'text' && element.text === 'API')!;
+    const [behind] = elements;
+    expect(behind.type).toBe('rectangle');
+    expect(behind.id).not.toBe(header.containerId);
+    expect(behind.width).toBeGreaterThan(elements.find(element => element.id === header.containerId)!.width);
+  });
+
+  it('drops created participants to the message that creates them', () => {
+    const diagram = parseSequenceDiagram(`sequenceDiagram
+      Alice->>Bob: Hello
+      create participant Carol
+      Bob->>Carol: Spawn
+      Carol->>Bob: Ready`);
+    expect(diagram.sequence?.events[1]).toMatchObject({ kind: 'message', createTarget: true });
+
+    const layout = layoutDiagram(diagram);
+    const carol = layout.nodes.get('Carol')!;
+    const spawn = layout.edges[1].points;
+    expect(carol.y).toBeGreaterThan(layout.nodes.get('Bob')!.y);
+    expect(carol.y + carol.height / 2).toBeCloseTo(spawn[0].y);
+    // The arrow stops at the header rather than running to the lifeline
+    expect(spawn[1].x).toBe(carol.x);
+  });
+
+  it('cuts destroyed lifelines at the destroying message and marks them', () => {
+    const diagram = parseSequenceDiagram(`sequenceDiagram
+      Alice->>Bob: Hello
+      destroy Bob
+      Alice-xBob: Goodbye
+      Alice->>Alice: Alone`);
+    expect(diagram.sequence?.events[1]).toMatchObject({ kind: 'message', destroyTarget: true });
+
+    const layout = layoutDiagram(diagram);
+    const lifeline = (id: string) => layout.lifelines!.find(line => line.participant === id)!;
+    expect(lifeline('Bob')).toMatchObject({ destroyed: true, bottom: layout.edges[1].points[0].y });
+    expect(lifeline('Alice').destroyed).toBe(false);
+    expect(lifeline('Alice').bottom).toBeGreaterThan(lifeline('Bob').bottom);
+  });
+
+  it('repeats surviving headers below the lifelines when mirrored', () => {
+    const source = 'sequenceDiagram\nAlice->>Bob: Hello\ndestroy Bob\nAlice-xBob: Bye';
+    expect(layoutDiagram(parseSequenceDiagram(source)).mirrors).toEqual([]);
+
+    const layout = layoutDiagram(parseSequenceDiagram(source), { mirrorParticipants: true });
+    expect(layout.mirrors!.map(node => node.id)).toEqual(['Alice']);
+    expect(layout.mirrors![0].y).toBe(layout.lifelines![0].bottom);
+    expect(layout.height).toBeGreaterThan(layout.mirrors![0].y + layout.mirrors![0].height);
+
+    const { elements } = convertToExcalidraw(parseSequenceDiagram(source), { mirrorParticipants: true });
+    expect(elements.filter(element => element.type === 'text' && element.text === 'Alice')).toHaveLength(2);
+  });
+});
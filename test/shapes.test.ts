@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { shapeGeometry, type Point, type ShapePart } from '../src/converter/shapes.js';
+import type { NodeShape } from '../src/types/index.js';
+
+const SHAPES: NodeShape[] = [
+  'rectangle', 'rounded', 'stadium', 'subroutine', 'cylinder', 'circle', 'double-circle',
+  'asymmetric', 'diamond', 'hexagon', 'lean-right', 'lean-left', 'trapezoid', 'inv-trapezoid',
+  'ellipse', 'text', 'document', 'lined-document', 'documents', 'tagged-document',
+  'notched-rectangle', 'lined-rectangle', 'divided-rectangle', 'stacked-rectangle',
+  'tagged-rectangle', 'window-pane', 'sloped-rectangle', 'bow-tie-rectangle', 'notched-pentagon',
+  'delay', 'curved-trapezoid', 'flag', 'horizontal-cylinder', 'lined-cylinder', 'small-circle',
+  'framed-circle', 'filled-circle', 'crossed-circle', 'triangle', 'flipped-triangle', 'hourglass',
+  'fork', 'bolt', 'brace-left', 'brace-right', 'braces',
+];
+
+function cornersOf(part: ShapePart): Point[] {
+  return 'points' in part
+    ? part.points
+    : [[part.x, part.y], [part.x + part.width, part.y + part.height]];
+}
+
+describe('shapeGeometry', () => {
+  it.each(SHAPES)('draws %s with exactly one outline part', shape => {
+    const outlines = shapeGeometry(shape, 120, 60).filter(part => 'outline' in part && part.outline);
+    expect(outlines).toHaveLength(1);
+  });
+
+  it.each(SHAPES)('keeps %s inside its box', shape => {
+    for (const part of shapeGeometry(shape, 120, 60)) {
+      for (const [x, y] of cornersOf(part)) {
+        expect(x).toBeGreaterThanOrEqual(-0.01);
+        expect(y).toBeGreaterThanOrEqual(-0.01);
+        expect(x).toBeLessThanOrEqual(120.01);
+        expect(y).toBeLessThanOrEqual(60.01);
+      }
+    }
+  });
+});
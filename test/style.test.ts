@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { parseStyleProperties } from '../src/parser/style.js';
+
+describe('parseStyleProperties', () => {
+  it('maps Mermaid properties onto Excalidraw style fields', () => {
+    expect(parseStyleProperties('fill:#f9f,stroke:#333,stroke-width:4px,color:#fff')).toEqual({
+      backgroundColor: '#f9f',
+      strokeColor: '#333',
+      strokeWidth: 4,
+      fontColor: '#fff',
+    });
+  });
+
+  it('keeps commas inside colour functions', () => {
+    expect(parseStyleProperties('fill:rgb(1, 2, 3),stroke:#000')).toEqual({
+      backgroundColor: 'rgb(1, 2, 3)',
+      strokeColor: '#000',
+    });
+  });
+
+  it('reads dash arrays as dashed or dotted strokes', () => {
+    expect(parseStyleProperties('stroke-dasharray: 5 5').strokeStyle).toBe('dashed');
+    expect(parseStyleProperties('stroke-dasharray: 2 4').strokeStyle).toBe('dotted');
+    expect(parseStyleProperties('stroke-dasharray: 0').strokeStyle).toBe('solid');
+  });
+
+  it('ignores unknown properties, empty values and !important', () => {
+    expect(parseStyleProperties('font-weight:bold,fill:,stroke:#111 !important')).toEqual({
+      strokeColor: '#111',
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { FONT_FAMILIES, measureLine, measureText, wrapText } from '../src/converter/text.js';
+
+const FAMILIES = Object.values(FONT_FAMILIES);
+const PROPORTIONAL_FAMILIES = FAMILIES.filter(family => family !== FONT_FAMILIES.cascadia);
+
+describe('measureLine', () => {
+  it('scales with the font size', () => {
+    expect(measureLine('Hello', { fontSize: 32 })).toBeCloseTo(measureLine('Hello', { fontSize: 16 }) * 2);
+  });
+
+  it.each(PROPORTIONAL_FAMILIES)('measures wide letters wider than narrow ones in font %i', fontFamily => {
+    expect(measureLine('W', { fontFamily })).toBeGreaterThan(measureLine('i', { fontFamily }));
+  });
+
+  it('measures every character of the code font alike', () => {
+    const fontFamily = FONT_FAMILIES.cascadia;
+    expect(measureLine('W', { fontFamily })).toBe(measureLine('i', { fontFamily }));
+  });
+
+  it('tells the fonts apart', () => {
+    const widths = FAMILIES.map(fontFamily => measureLine('Payments Service', { fontFamily }));
+    expect(new Set(widths).size).toBe(FAMILIES.length);
+  });
+
+  it('measures CJK characters and emoji as squares and combining marks as nothing', () => {
+    expect(measureLine('漢字', { fontSize: 20 })).toBe(40);
+    expect(measureLine('é')).toBe(measureLine('e'));
+    // A family emoji joined with zero-width joiners is one glyph
+    expect(measureLine('👨‍👩‍👧')).toBe(measureLine('👨'));
+  });
+});
+
+describe('measureText', () => {
+  it('takes the widest line and stacks the line heights', () => {
+    const { width, height } = measureText('short\nmuch longer line', { fontSize: 20, lineHeight: 1.25 });
+    expect(width).toBe(measureLine('much longer line', { fontSize: 20 }));
+    expect(height).toBe(50);
+  });
+});
+
+describe('wrapText', () => {
+  it('breaks between words so no line is wider than the limit', () => {
+    const text = 'The quick brown fox jumps over the lazy dog';
+    const wrapped = wrapText(text, 120);
+    expect(wrapped.split('\n').length).toBeGreaterThan(1);
+    expect(wrapped.replace(/\n/g, ' ')).toBe(text);
+    for (const line of wrapped.split('\n')) {
+      expect(measureLine(line)).toBeLessThanOrEqual(120);
+    }
+  });
+
+  it('splits words longer than a line', () => {
+    const wrapped = wrapText('Supercalifragilisticexpialidocious', 80);
+    expect(wrapped.replace(/\n/g, '')).toBe('Supercalifragilisticexpialidocious');
+    for (const line of wrapped.split('\n')) {
+      expect(measureLine(line)).toBeLessThanOrEqual(80);
+    }
+  });
+
+  it('breaks CJK text between any two characters', () => {
+    const wrapped = wrapText('漢字漢字漢字', 40, { fontSize: 20 });
+    expect(wrapped).toBe('漢字\n漢字\n漢字');
+  });
+
+  it('keeps existing line breaks', () => {
+    expect(wrapText('one\ntwo', 500)).toBe('one\ntwo');
+  });
+});
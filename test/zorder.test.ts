@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import type { ExcalidrawElement } from '../src/types/index.js';
+import { LAYERS, createLayers, fractionalIndex, stackLayers } from '../src/converter/zorder.js';
+
+function element(id: string): ExcalidrawElement {
+  return { id, index: '' } as ExcalidrawElement;
+}
+
+describe('fractionalIndex', () => {
+  it('starts with the single-digit keys', () => {
+    expect(fractionalIndex(0)).toBe('a0');
+    expect(fractionalIndex(1)).toBe('a1');
+    expect(fractionalIndex(61)).toBe('az');
+  });
+
+  it('rolls over from az to b00', () => {
+    expect(fractionalIndex(62)).toBe('b00');
+    expect(fractionalIndex(63)).toBe('b01');
+    expect(fractionalIndex(61) < fractionalIndex(62)).toBe(true);
+  });
+
+  it('keeps string order into the thousands', () => {
+    const keys = Array.from({ length: 5000 }, (_, position) => fractionalIndex(position));
+    expect(new Set(keys).size).toBe(keys.length);
+    expect([...keys].sort()).toEqual(keys);
+  });
+
+  it('keeps string order past the b → c rollover', () => {
+    const last = 62 + 62 ** 2 - 1;
+    expect(fractionalIndex(last)).toBe('bzz');
+    expect(fractionalIndex(last + 1)).toBe('c000');
+    expect(fractionalIndex(last) < fractionalIndex(last + 1)).toBe(true);
+  });
+});
+
+describe('stackLayers', () => {
+  it('stacks subgraphs < shapes < lifelines < arrows < notes < labels < frames', () => {
+    expect(LAYERS).toEqual(['subgraphs', 'shapes', 'lifelines', 'arrows', 'notes', 'labels', 'frames']);
+
+    // Filled in reverse so insertion order can't explain the result
+    const layers = createLayers();
+    for (const layer of [...LAYERS].reverse()) {
+      layers[layer].push(element(`${layer}:1`), element(`${layer}:2`));
+    }
+
+    const stacked = stackLayers(layers);
+    expect(stacked.map(e => e.id)).toEqual(LAYERS.flatMap(layer => [`${layer}:1`, `${layer}:2`]));
+
+    const indices = stacked.map(e => e.index);
+    expect([...indices].sort()).toEqual(indices);
+  });
+
+  it('orders many labels above every shape by index', () => {
+    const layers = createLayers();
+    for (let i = 0; i < 100; i++) {
+      layers.labels.push(element(`label:${i}`));
+      layers.shapes.push(element(`shape:${i}`));
+    }
+
+    const stacked = stackLayers(layers);
+    const shapeIndices = stacked.filter(e => e.id.startsWith('shape:')).map(e => e.index);
+    const labelIndices = stacked.filter(e => e.id.startsWith('label:')).map(e => e.index);
+    const highestShape = [...shapeIndices].sort().at(-1)!;
+    expect(labelIndices.every(index => index > highestShape)).toBe(true);
+  });
+});